@@ -0,0 +1,135 @@
+import 'module-alias/register';
+import 'dotenv/config';
+import { closeDB, connectDB } from '@/config/database';
+import seeds from '@/seeds';
+import logger from '@/utils/logger';
+import { getMigrationStatus, getPendingMigrations, migrateDown, migrateUp } from '@/utils/migrator';
+import { startMockOidcProvider } from '@/utils/mock-oidc-provider';
+
+const USAGE = `Usage:
+  migrate up [--to <version>]   Apply pending migrations
+  migrate down [--steps <n>]    Revert the last applied migrations (default 1)
+  migrate status                List migrations and whether they are applied
+  seed --env <name>             Load sample data (${Object.keys(seeds).join(', ')})
+  mock-idp [--port <n>] [--client-id <id>] [--email <email>] [--name <name>] [--groups <a,b>]
+                                Run a local OpenID provider that signs in a test user`;
+
+// Read the value following a `--name` flag
+const getOption = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const migrate = async (args: string[]): Promise<void> => {
+  const [action] = args;
+
+  switch (action) {
+    case 'up': {
+      const applied = await migrateUp(getOption(args, 'to'));
+      logger.info(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'No pending migrations');
+      break;
+    }
+    case 'down': {
+      const steps = Number(getOption(args, 'steps') || 1);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error('--steps must be a positive integer');
+      }
+      const reverted = await migrateDown(steps);
+      logger.info(reverted.length > 0 ? `Reverted ${reverted.length} migration(s)` : 'No applied migrations');
+      break;
+    }
+    case 'status': {
+      const status = await getMigrationStatus();
+      console.table(status.map(({ version, name, applied, appliedAt }) => ({
+        version,
+        name,
+        status: applied ? 'applied' : 'pending',
+        appliedAt: appliedAt ? appliedAt.toISOString() : ''
+      })));
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+};
+
+const seed = async (args: string[]): Promise<void> => {
+  const env = getOption(args, 'env');
+  const seeder = env ? seeds[env] : undefined;
+  if (!seeder) {
+    throw new Error(USAGE);
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Seeding is disabled in production');
+  }
+
+  // Sample data refers to the roles and users created by the migrations
+  if ((await getPendingMigrations()).length > 0) {
+    throw new Error('There are pending migrations, run `migrate up` first');
+  }
+
+  await seeder();
+  logger.info(`Seeded ${env} data`);
+};
+
+// Runs until stopped, and needs no database
+const mockIdp = async (args: string[]): Promise<void> => {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('The mock identity provider is disabled in production');
+  }
+
+  const port = Number(getOption(args, 'port') || 4010);
+  const clientId = getOption(args, 'client-id') || 'local-client';
+  const email = getOption(args, 'email') || 'sso.user@example.com';
+
+  const { issuer } = await startMockOidcProvider({
+    port,
+    clientId,
+    user: {
+      sub: 'mock-user-1',
+      email,
+      name: getOption(args, 'name') || 'SSO User',
+      groups: (getOption(args, 'groups') || '').split(',').filter(Boolean)
+    }
+  });
+
+  const apiUrl = `http://localhost:${process.env.PORT || 5000}`;
+  logger.info(`Mock identity provider listening on ${issuer}, signing in ${email}. Configure it with:`);
+  console.log(`OIDC_PROVIDERS='${JSON.stringify([{
+    name: 'mock',
+    displayName: 'Mock IdP',
+    issuer,
+    clientId,
+    redirectUri: `${apiUrl}/api/auth/oidc/mock/callback`
+  }])}'`);
+};
+
+const run = async (): Promise<void> => {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'mock-idp') {
+    return mockIdp(args).catch(error => {
+      logger.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+  }
+
+  if (command !== 'migrate' && command !== 'seed') {
+    console.log(USAGE);
+    process.exit(command ? 1 : 0);
+  }
+
+  await connectDB();
+
+  try {
+    await (command === 'migrate' ? migrate(args) : seed(args));
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await closeDB();
+  }
+};
+
+run();
@@ -0,0 +1,39 @@
+// Conditions that narrow what a role may do with a permission. A role listed in
+// a rule only gets the permission on documents matching all of the rule's conditions;
+// `$user` stands for the signed-in user's ID and an array matches any of its values.
+// Rules apply to the roles assigned to a user, so a role inheriting from a
+// restricted role keeps unrestricted access unless it has a rule of its own.
+export type PolicyConditionValue = string | number | boolean | (string | number | boolean)[];
+
+export interface AccessPolicy {
+  permission: string;
+  roles: string[];
+  conditions: Record<string, PolicyConditionValue>;
+}
+
+export const accessPolicies: AccessPolicy[] = [
+  // Editors may only update their own drafts, and their blogs sent back by reviewers
+  {
+    permission: 'blogs:update',
+    roles: ['Editor'],
+    conditions: { author: '$user', status: ['draft', 'changes_requested'] }
+  },
+  // Admins and content managers edit and delete their own blogs only, as before the
+  // policy layer; SuperAdmin is never restricted
+  {
+    permission: 'blogs:update',
+    roles: ['Admin', 'ContentManager'],
+    conditions: { author: '$user' }
+  },
+  {
+    permission: 'blogs:delete',
+    roles: ['Admin', 'ContentManager'],
+    conditions: { author: '$user' }
+  },
+  // Business developers only see the inquiries assigned to them
+  {
+    permission: 'inquiries:read',
+    roles: ['BusinessDeveloper'],
+    conditions: { assignedTo: '$user' }
+  }
+];
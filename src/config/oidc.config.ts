@@ -0,0 +1,58 @@
+import fs from 'fs';
+import { z } from 'zod';
+
+// OIDC identity providers, configured either inline as a JSON array in
+// OIDC_PROVIDERS or in a JSON file referenced by OIDC_CONFIG_FILE, e.g.
+// [{ "name": "okta", "issuer": "https://example.okta.com", "clientId": "...",
+//    "clientSecret": "...", "redirectUri": "https://api.example.com/api/auth/oidc/okta/callback",
+//    "roleMapping": { "cms-editors": "Editor" } }]
+const oidcProviderSchema = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/, 'Provider names may only contain a-z, 0-9 and -'),
+  displayName: z.string().optional(),
+  issuer: z.string().url(),
+  clientId: z.string().min(1),
+  clientSecret: z.string().optional(),
+  redirectUri: z.string().url(),
+  scopes: z.array(z.string()).default(['openid', 'email', 'profile']),
+  // Claim holding the user's IdP groups
+  groupsClaim: z.string().default('groups'),
+  // IdP group -> Role name
+  roleMapping: z.record(z.string()).default({}),
+  // Create users on first login (JIT provisioning)
+  allowSignup: z.boolean().default(true),
+  // Replace the user's roles with the mapped roles on every login
+  syncRoles: z.boolean().default(false)
+});
+
+export type OidcProviderConfig = z.infer<typeof oidcProviderSchema>;
+
+let providers: OidcProviderConfig[] | null = null;
+
+const loadProviders = (): OidcProviderConfig[] => {
+  let raw = process.env.OIDC_PROVIDERS;
+
+  if (!raw && process.env.OIDC_CONFIG_FILE) {
+    raw = fs.readFileSync(process.env.OIDC_CONFIG_FILE, 'utf8');
+  }
+
+  if (!raw) return [];
+
+  return z.array(oidcProviderSchema).parse(JSON.parse(raw));
+};
+
+/**
+ * Get all configured OIDC providers (loaded once)
+ */
+export const getOidcProviders = (): OidcProviderConfig[] => {
+  if (!providers) {
+    providers = loadProviders();
+  }
+  return providers;
+};
+
+/**
+ * Get a configured OIDC provider by name
+ */
+export const getOidcProvider = (name: string): OidcProviderConfig | undefined => {
+  return getOidcProviders().find(provider => provider.name === name);
+};
@@ -31,6 +31,8 @@ export enum FileCategory {
   BLOG = 'blog',
   CAREER = 'career',
   DOCUMENT = 'document',
+  // Uploaded by applicants with the public application form
+  RESUME = 'resume',
   OTHER = 'other'
 }
 
@@ -39,6 +41,7 @@ export const FILE_SIZE_LIMITS = {
   [FileCategory.BLOG]: 10 * 1024 * 1024, // 10MB
   [FileCategory.CAREER]: 10 * 1024 * 1024, // 10MB
   [FileCategory.DOCUMENT]: 20 * 1024 * 1024, // 20MB
+  [FileCategory.RESUME]: 5 * 1024 * 1024, // 5MB
   [FileCategory.OTHER]: 5 * 1024 * 1024 // 5MB
 };
 
@@ -60,6 +63,11 @@ export const ALLOWED_MIME_TYPES = {
     'application/vnd.openxmlformats-officedocument.presentationml.presentation',
     'text/plain'
   ],
+  [FileCategory.RESUME]: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ],
   [FileCategory.OTHER]: ['*/*']
 };
 
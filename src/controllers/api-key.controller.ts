@@ -0,0 +1,123 @@
+import { ApiKey } from '@/models';
+import { userHasPermission } from '@/middleware/permission.middlware';
+import { ApiKeyIdParams, CreateApiKeyInput } from '@/schemas/api-key.schema';
+import { ApiError } from '@/types';
+import { generateApiKey } from '@/utils/api-key';
+import { NextFunction, Request, Response } from 'express';
+
+// Keys can only be managed from an interactive login, never with another key
+const assertNotApiKeyRequest = (req: Request<any>): void => {
+  if (req.apiKey) {
+    const error = new Error('API keys cannot be managed with an API key') as ApiError;
+    error.statusCode = 403;
+    throw error;
+  }
+};
+
+/**
+ * @desc    Create a personal API key
+ * @route   POST /api/auth/api-keys
+ * @access  Private
+ */
+export const createApiKey = async (req: Request<{}, {}, CreateApiKeyInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    assertNotApiKeyRequest(req);
+
+    const { name, scopes, expiresInDays } = req.body;
+
+    // A key can never do more than its owner
+    const uniqueScopes = [...new Set(scopes)];
+    const deniedScopes = uniqueScopes.filter(scope => !userHasPermission(req.user!, scope));
+    if (deniedScopes.length > 0) {
+      const error = new Error(`You cannot grant scopes you do not have: ${deniedScopes.join(', ')}`) as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const apiKey = await ApiKey.create({
+      user: req.user!._id,
+      name,
+      prefix,
+      keyHash,
+      scopes: uniqueScopes,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy it now, it will not be shown again.',
+      data: {
+        apiKey: {
+          _id: apiKey._id,
+          name: apiKey.name,
+          prefix: apiKey.prefix,
+          scopes: apiKey.scopes,
+          expiresAt: apiKey.expiresAt,
+          createdAt: apiKey.createdAt
+        },
+        key
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    List the current user's API keys
+ * @route   GET /api/auth/api-keys
+ * @access  Private
+ */
+export const getMyApiKeys = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    assertNotApiKeyRequest(req);
+
+    const apiKeys = await ApiKey.find({ user: req.user!._id, revokedAt: null }).sort('-createdAt');
+
+    res.status(200).json({
+      success: true,
+      message: 'API keys retrieved successfully',
+      data: {
+        items: apiKeys
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Revoke one of the current user's API keys
+ * @route   DELETE /api/auth/api-keys/:keyId
+ * @access  Private
+ */
+export const revokeApiKey = async (req: Request<ApiKeyIdParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    assertNotApiKeyRequest(req);
+
+    const { keyId } = req.params;
+
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { _id: keyId, user: req.user!._id, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+
+    if (!apiKey) {
+      const error = new Error('API key not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'API key revoked successfully',
+      data: {
+        id: keyId
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
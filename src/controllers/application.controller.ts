@@ -1,3 +1,5 @@
+import { ALLOWED_MIME_TYPES, FILE_SIZE_LIMITS } from "@/config/s3.config"
+import { listTrash, restoreFromTrash } from "@/controllers/trash.controller"
 import Application from "@/models/application.model"
 import Career from "@/models/career.model"
 import type {
@@ -10,7 +12,10 @@ import type {
 } from "@/schemas/application.schema"
 import { notifyRoles } from "@/socket"
 import type { ApiError } from "@/types"
+import { canAccessDocument, withAccessFilter } from "@/utils/access-policy"
+import { FileCategory, isValidResumeReference, uploadFile } from "@/utils/storage.utils"
 import type { NextFunction, Request, Response } from "express"
+import type { Types } from "mongoose"
 
 /**
  * @desc    Submit a job application
@@ -25,6 +30,12 @@ export const submitApplication = async (
   try {
     const { career: careerId, name, email, phone, resumeUrl, coverLetter } = req.body
 
+    if (!isValidResumeReference(resumeUrl)) {
+      const error = new Error("Resume must be a link or a file uploaded with the resume upload") as ApiError
+      error.statusCode = 400
+      throw error
+    }
+
     // Check if career exists and is published
     const career = await Career.findById(careerId)
 
@@ -78,6 +89,50 @@ export const submitApplication = async (
   }
 }
 
+/**
+ * @desc    Upload a resume for a job application; the returned key is submitted as resumeUrl
+ * @route   POST /api/applications/resume
+ * @access  Public
+ */
+export const uploadResume = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.file) {
+      const error = new Error("No file uploaded") as ApiError
+      error.statusCode = 400
+      throw error
+    }
+
+    const { buffer, originalname, mimetype, size } = req.file
+
+    if (!ALLOWED_MIME_TYPES[FileCategory.RESUME].includes(mimetype)) {
+      const error = new Error("Resumes must be a PDF or Word document") as ApiError
+      error.statusCode = 400
+      throw error
+    }
+
+    if (size > FILE_SIZE_LIMITS[FileCategory.RESUME]) {
+      const error = new Error("Resume is too large") as ApiError
+      error.statusCode = 400
+      throw error
+    }
+
+    const file = await uploadFile(buffer, originalname, mimetype, FileCategory.RESUME)
+
+    // Only the key: applicants never get read access to stored files
+    res.status(201).json({
+      success: true,
+      message: "Resume uploaded successfully",
+      data: {
+        key: file.key,
+        originalName: file.originalName,
+        size: file.size,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+}
+
 /**
  * @desc    Get all applications
  * @route   GET /api/applications
@@ -114,14 +169,17 @@ export const getApplications = async (
     const limitNum = Number(limit)
     const skip = (pageNum - 1) * limitNum
 
-    const applications = await Application.find(query)
+    // Only list the applications the access policies allow
+    const filter = withAccessFilter(req, "applications:view", query)
+
+    const applications = await Application.find(filter)
       .populate("career", "title department")
       .sort(sort as string)
       .skip(skip)
       .limit(limitNum)
 
     // Get total count for pagination
-    const total = await Application.countDocuments(query)
+    const total = await Application.countDocuments(filter)
 
     res.status(200).json({
       success: true,
@@ -154,7 +212,7 @@ export const getApplicationById = async (
   try {
     const application = await Application.findById(req.params.id).populate("career")
 
-    if (!application) {
+    if (!application || !canAccessDocument(req, "applications:view", application)) {
       const error = new Error("Application not found") as ApiError
       error.statusCode = 404
       throw error
@@ -183,18 +241,26 @@ export const updateApplicationStatus = async (
   try {
     const { status, notes } = req.body
 
-    const application = await Application.findByIdAndUpdate(
-      req.params.id,
-      { status, ...(notes && { notes }) },
-      { new: true },
-    )
+    const existingApplication = await Application.findById(req.params.id)
 
-    if (!application) {
+    if (!existingApplication) {
       const error = new Error("Application not found") as ApiError
       error.statusCode = 404
       throw error
     }
 
+    if (!canAccessDocument(req, "applications:update", existingApplication)) {
+      const error = new Error("Not authorized to update this application") as ApiError
+      error.statusCode = 403
+      throw error
+    }
+
+    const application = await Application.findByIdAndUpdate(
+      req.params.id,
+      { status, ...(notes && { notes }) },
+      { new: true },
+    )
+
     res.status(200).json({
       success: true,
       message: "Application status updated successfully",
@@ -224,7 +290,13 @@ export const deleteApplication = async (
       throw error
     }
 
-    await application.deleteOne()
+    if (!canAccessDocument(req, "applications:delete", application)) {
+      const error = new Error("Not authorized to delete this application") as ApiError
+      error.statusCode = 403
+      throw error
+    }
+
+    await application.softDelete(req.user!._id as Types.ObjectId)
 
     res.status(200).json({
       success: true,
@@ -236,6 +308,28 @@ export const deleteApplication = async (
   }
 }
 
+const applicationTrash = {
+  model: Application,
+  resource: "applications",
+  label: "Application",
+  key: "applications",
+  select: "name email career status deletedAt deletedBy",
+}
+
+/**
+ * @desc    Get deleted applications
+ * @route   GET /api/applications/trash
+ * @access  Private/Admin
+ */
+export const getDeletedApplications = listTrash(applicationTrash)
+
+/**
+ * @desc    Restore a deleted application
+ * @route   POST /api/applications/:id/restore
+ * @access  Private/Admin
+ */
+export const restoreApplication = restoreFromTrash(applicationTrash)
+
 /**
  * @desc    Get applications by career
  * @route   GET /api/applications/career/:careerId
@@ -274,10 +368,13 @@ export const getApplicationsByCareer = async (
     const limitNum = Number(limit)
     const skip = (pageNum - 1) * limitNum
 
-    const applications = await Application.find(query).sort("-createdAt").skip(skip).limit(limitNum)
+    // Only list the applications the access policies allow
+    const filter = withAccessFilter(req, "applications:view", query)
+
+    const applications = await Application.find(filter).sort("-createdAt").skip(skip).limit(limitNum)
 
     // Get total count for pagination
-    const total = await Application.countDocuments(query)
+    const total = await Application.countDocuments(filter)
 
     res.status(200).json({
       success: true,
@@ -1,15 +1,35 @@
-import { Role, User } from '@/models';
-import { ChangePasswordInput, ForgotPasswordInput, LoginInput, RegisterInput, ResetPasswordInput, ResetPasswordParams } from '@/schemas/auth.schema';
+import { Role, Settings, User } from '@/models';
+import {
+  ChangePasswordInput,
+  ExpiredPasswordInput,
+  ForgotPasswordInput,
+  LoginInput,
+  MagicLinkLoginParams,
+  MagicLinkRequestInput,
+  RegisterInput,
+  ResendVerificationInput,
+  ResetPasswordInput,
+  ResetPasswordParams,
+  VerifyEmailParams
+} from '@/schemas/auth.schema';
 import { ApiError } from '@/types';
+import { sendMagicLinkEmail, sendPasswordResetEmail, sendVerificationEmail } from '@/utils/email';
+import logger from '@/utils/logger';
+import { assertPasswordAllowed } from '@/utils/password-policy';
 import {
-  clearTokenCookies,
-  generateAccessToken,
-  generateRefreshToken,
-  verifyRefreshToken
-} from '@/utils/token';
+  completeLogin,
+  getLoginMessage,
+  getSessionContext,
+  isTwoFactorRequired,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeUserSessions,
+  rotateSession,
+  signInUser
+} from '@/utils/session';
+import { clearTokenCookies, verifyChallengeToken } from '@/utils/token';
 import crypto from 'crypto';
 import { NextFunction, Request, Response } from 'express';
-import _ from "lodash";
 import { Types } from 'mongoose';
 
 /**
@@ -22,13 +42,16 @@ export const register = async (req: Request<{}, {}, RegisterInput>, res: Respons
     const { name, email, password, roleId } = req.body;
 
     // Check if user already exists
-    const userExists = await User.findOne({ email });
+    const userExists = await User.findOne({ email }).setOptions({ withDeleted: true });
     if (userExists) {
       const error = new Error('User with this email already exists') as ApiError;
       error.statusCode = 400;
       throw error;
     }
 
+    // Enforce the password policy
+    await assertPasswordAllowed(password, { name, email });
+
     // Get role (custom or default)
     let role;
     if (roleId) {
@@ -57,6 +80,16 @@ export const register = async (req: Request<{}, {}, RegisterInput>, res: Respons
       roles: [role._id]
     });
 
+    // Send the verification email (registration still succeeds if it fails)
+    const verificationToken = user.generateEmailVerificationToken();
+    await user.save();
+
+    try {
+      await sendVerificationEmail(user, verificationToken);
+    } catch (error) {
+      logger.error('Verification email could not be sent', error);
+    }
+
     // Return user data (without password) and tokens
     res.status(201).json({
       success: true,
@@ -86,7 +119,7 @@ export const login = async (req: Request<{}, {}, LoginInput>, res: Response, nex
     const { email, password } = req.body;
 
     // Check if user exists
-    const user = await User.findOne({ email }).select('+password').populate({
+    const user = await User.findOne({ email }).select('+password +failedLoginAttempts +lockUntil').populate({
       path: 'roles',
       populate: {
         path: 'permissions'
@@ -99,9 +132,18 @@ export const login = async (req: Request<{}, {}, LoginInput>, res: Response, nex
       throw error;
     }
 
+    // Refuse to check passwords while the account is locked
+    if (user.isLocked()) {
+      const minutes = Math.ceil((user.lockUntil!.getTime() - Date.now()) / 60000);
+      const error = new Error(`Account temporarily locked due to failed login attempts. Try again in ${minutes} minute(s)`) as ApiError;
+      error.statusCode = 423;
+      throw error;
+    }
+
     // Check if password matches
     const isMatch = await user.matchPassword(password);
     if (!isMatch) {
+      await user.registerFailedLogin();
       const error = new Error('Invalid credentials') as ApiError;
       error.statusCode = 401;
       throw error;
@@ -114,30 +156,26 @@ export const login = async (req: Request<{}, {}, LoginInput>, res: Response, nex
       throw error;
     }
 
-    // Generate tokens
-    const accessToken = generateAccessToken((user._id as Types.ObjectId).toString());
-    const refreshToken = generateRefreshToken((user._id as Types.ObjectId).toString());
-
-    // Set cookies
-    // setTokenCookies(res, accessToken, refreshToken);
+    // Optionally require a verified email address before allowing login
+    const settings = await Settings.findOne();
+    if (settings?.authSettings?.requireEmailVerification && !user.isEmailVerified) {
+      const error = new Error('Please verify your email address before logging in') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
 
-    // Update last login
-    user.lastLoginAt = new Date();
-    await user.save();
+    // Failed attempts are only cleared once every factor has been checked
+    if (!user.twoFactor?.enabled && !(await isTwoFactorRequired(user))) {
+      await user.resetFailedLogins();
+    }
 
-    // Return user data (without password) and tokens
-    const userData = _.omit(user.toObject(), ['password']);
+    // Start a new session, or hand out a challenge when a second factor is needed
+    const result = await completeLogin(user, req);
 
     res.status(200).json({
       success: true,
-      message: 'Login successful',
-      data: {
-        user: userData,
-        tokens: {
-          accessToken,
-          refreshToken
-        }
-      }
+      message: getLoginMessage(result),
+      data: result
     });
   } catch (error) {
     next(error);
@@ -159,30 +197,26 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
       throw error;
     }
 
-    // Verify refresh token
-    const decoded = verifyRefreshToken(refreshToken);
+    // Verify and rotate refresh token (revokes the session on reuse)
+    const { userId, sessionId, accessToken: newAccessToken, refreshToken: newRefreshToken } = await rotateSession(refreshToken, getSessionContext(req));
     
     // Check if user exists
-    const user = await User.findById(decoded.userId);
+    const user = await User.findById(userId);
     
     if (!user) {
+      await revokeSession(sessionId, 'user_not_found');
       const error = new Error('User not found') as ApiError;
       error.statusCode = 401;
       throw error;
     }
 
     if (!user.isActive) {
+      await revokeSession(sessionId, 'user_deactivated');
       const error = new Error('Your account has been deactivated') as ApiError;
       error.statusCode = 401;
       throw error;
     }
 
-    // Generate new tokens
-    const newAccessToken = generateAccessToken((user._id as Types.ObjectId).toString());
-    const newRefreshToken = generateRefreshToken((user._id as Types.ObjectId).toString());
-    
-    // Set new tokens in cookies
-
     res.status(200).json({
       success: true,
       message: 'Token refreshed successfully',
@@ -205,8 +239,18 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
  * @route   POST /api/auth/logout
  * @access  Private
  */
-export const logout = (req: Request, res: Response, next: NextFunction): void => {
+export const logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
+    // Revoke the current session so its refresh token stops working
+    if (req.sessionId) {
+      await revokeSession(req.sessionId);
+    }
+
+    const refreshToken = req?.cookies?.refreshToken || req?.body?.refreshToken;
+    if (refreshToken) {
+      await revokeSessionByRefreshToken(refreshToken);
+    }
+
     // Clear cookies
     clearTokenCookies(res);
     
@@ -226,10 +270,28 @@ export const logout = (req: Request, res: Response, next: NextFunction): void =>
  */
 export const getMe = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
+    // The auth middleware no longer populates roles
+    const user = await req.user!.populate({
+      path: 'roles',
+      populate: {
+        path: 'permissions'
+      }
+    });
+
     res.status(200).json({
       success: true,
       data: {
-        user: req.user
+        user,
+        impersonation: req.impersonator
+          ? {
+              active: true,
+              impersonator: {
+                _id: req.impersonator._id,
+                name: req.impersonator.name,
+                email: req.impersonator.email
+              }
+            }
+          : { active: false }
       }
     });
   } catch (error) {
@@ -262,27 +324,11 @@ export const forgotPassword = async (req: Request<{},{},ForgotPasswordInput>, re
     const resetToken = user.generatePasswordResetToken();
     await user.save();
 
-    // Create reset URL
-    const resetUrl = `${process.env.FRONTEND_URL}/reset-password/${resetToken}`;
-
     // Send email
     try {
-    //   await sendEmail({
-    //     to: user.email,
-    //     subject: 'Password Reset',
-    //     text: `You requested a password reset. Please go to: ${resetUrl}`,
-    //     html: `
-    //       <div>
-    //         <h1>Password Reset</h1>
-    //         <p>You requested a password reset. Please click the link below to reset your password:</p>
-    //         <a href="${resetUrl}" target="_blank">Reset Password</a>
-    //         <p>This link will expire in 10 minutes.</p>
-    //         <p>If you didn't request this, please ignore this email.</p>
-    //       </div>
-    //     `
-    //   });
+      await sendPasswordResetEmail(user, resetToken);
     } catch (error) {
-      console.error('Password reset email could not be sent', error);
+      logger.error('Password reset email could not be sent', error);
       // Continue execution - don't expose email sending errors to client for security
     }
 
@@ -315,7 +361,7 @@ export const resetPassword = async (req: Request<ResetPasswordParams,{},ResetPas
     const user = await User.findOne({
       passwordResetToken: hashedToken,
       passwordResetExpires: { $gt: Date.now() }
-    });
+    }).select('+password +passwordHistory');
 
     if (!user) {
       const error = new Error('Invalid or expired token') as ApiError;
@@ -323,15 +369,22 @@ export const resetPassword = async (req: Request<ResetPasswordParams,{},ResetPas
       throw error;
     }
 
-    // Set new password
-    user.password = password;
+    // Set new password (must satisfy the policy and not be a recent one)
+    const policy = await assertPasswordAllowed(password, { name: user.name, email: user.email }, user);
+    user.setPassword(password, policy.historySize);
     
     // Clear reset fields
     user.passwordResetToken = null;
     user.passwordResetExpires = null;
+
+    // The link was delivered to the user's mailbox, which verifies the address
+    user.isEmailVerified = true;
     
     await user.save();
 
+    // Sign out everywhere in case the old password was compromised
+    await revokeUserSessions(user._id as Types.ObjectId, 'password_reset');
+
     res.status(200).json({
       success: true,
       message: 'Password reset successful. You can now log in with your new password.'
@@ -346,7 +399,7 @@ export const resetPassword = async (req: Request<ResetPasswordParams,{},ResetPas
  * @route   GET /api/auth/verify-email/:token
  * @access  Public
  */
-export const verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const verifyEmail = async (req: Request<VerifyEmailParams>, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { token } = req.params;
 
@@ -356,11 +409,14 @@ export const verifyEmail = async (req: Request, res: Response, next: NextFunctio
       .update(token)
       .digest('hex');
 
-    // Find user with matching token
-    const user = await User.findOne({ emailVerificationToken: hashedToken });
+    // Find user with a matching, unexpired token
+    const user = await User.findOne({
+      emailVerificationToken: hashedToken,
+      emailVerificationExpires: { $gt: Date.now() }
+    });
 
     if (!user) {
-      const error = new Error('Invalid verification token') as ApiError;
+      const error = new Error('Invalid or expired verification token') as ApiError;
       error.statusCode = 400;
       throw error;
     }
@@ -368,6 +424,7 @@ export const verifyEmail = async (req: Request, res: Response, next: NextFunctio
     // Mark email as verified and clear verification token
     user.isEmailVerified = true;
     user.emailVerificationToken = null;
+    user.emailVerificationExpires = null;
     await user.save();
 
     res.status(200).json({
@@ -379,6 +436,132 @@ export const verifyEmail = async (req: Request, res: Response, next: NextFunctio
   }
 };
 
+/**
+ * @desc    Resend the email verification link
+ * @route   POST /api/auth/resend-verification
+ * @access  Public
+ */
+export const resendVerification = async (req: Request<{},{},ResendVerificationInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    // Always return the same response so registered emails cannot be discovered
+    const user = await User.findOne({ email });
+
+    if (user && !user.isEmailVerified) {
+      const verificationToken = user.generateEmailVerificationToken();
+      await user.save();
+
+      try {
+        await sendVerificationEmail(user, verificationToken);
+      } catch (error) {
+        logger.error('Verification email could not be sent', error);
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If your email is registered and not yet verified, you will receive a verification link'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Request a passwordless sign-in link
+ * @route   POST /api/auth/magic-link
+ * @access  Public
+ */
+export const requestMagicLink = async (req: Request<{},{},MagicLinkRequestInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    // Always return the same response so registered emails cannot be discovered
+    const user = await User.findOne({ email });
+
+    if (user && user.isActive) {
+      const magicLinkToken = user.generateMagicLinkToken();
+      await user.save();
+
+      try {
+        await sendMagicLinkEmail(user, magicLinkToken);
+      } catch (error) {
+        logger.error('Magic link email could not be sent', error);
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If your email is registered, you will receive a sign-in link'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Sign in with a magic link
+ * @route   POST /api/auth/magic-link/:token
+ * @access  Public
+ */
+export const loginWithMagicLink = async (req: Request<MagicLinkLoginParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    // Hash the token to compare with stored hash
+    const hashedToken = crypto
+      .createHash('sha256')
+      .update(token)
+      .digest('hex');
+
+    // Clear the token in the same step it is matched, so a link can only be used once
+    const user = await User.findOneAndUpdate(
+      {
+        magicLinkToken: hashedToken,
+        magicLinkExpires: { $gt: Date.now() }
+      },
+      { magicLinkToken: null, magicLinkExpires: null },
+      { new: true }
+    ).populate({
+      path: 'roles',
+      populate: {
+        path: 'permissions'
+      }
+    });
+
+    if (!user) {
+      const error = new Error('Invalid or expired sign-in link') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    // Check if user is active
+    if (!user.isActive) {
+      const error = new Error('Your account has been deactivated') as ApiError;
+      error.statusCode = 401;
+      throw error;
+    }
+
+    // Following the link proves ownership of the email address
+    if (!user.isEmailVerified) {
+      user.isEmailVerified = true;
+      await user.save();
+    }
+
+    // Start a new session, or hand out a challenge when a second factor is needed
+    const result = await completeLogin(user, req);
+
+    res.status(200).json({
+      success: true,
+      message: getLoginMessage(result),
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @desc    Change password
  * @route   PUT /api/auth/change-password
@@ -395,7 +578,7 @@ export const changePassword = async (req: Request<{},{},ChangePasswordInput>, re
     }
     
     // Get user with password
-    const user = await User.findById(req.user._id).select('+password');
+    const user = await User.findById(req.user._id).select('+password +passwordHistory');
     
     if (!user) {
       const error = new Error('User not found') as ApiError;
@@ -412,11 +595,13 @@ export const changePassword = async (req: Request<{},{},ChangePasswordInput>, re
       throw error;
     }
 
-    // Set new password
-    user.password = newPassword;
+    // Set new password (must satisfy the policy and not be a recent one)
+    const policy = await assertPasswordAllowed(newPassword, { name: user.name, email: user.email }, user);
+    user.setPassword(newPassword, policy.historySize);
     await user.save();
 
-    // Clear cookies to force re-login
+    // Revoke all sessions and clear cookies to force re-login
+    await revokeUserSessions(user._id as Types.ObjectId, 'password_changed');
     clearTokenCookies(res);
     
     res.status(200).json({
@@ -426,4 +611,48 @@ export const changePassword = async (req: Request<{},{},ChangePasswordInput>, re
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+/**
+ * @desc    Change an expired password and finish logging in
+ * @route   POST /api/auth/password-expired
+ * @access  Public (with challenge token)
+ */
+export const changeExpiredPassword = async (req: Request<{},{},ExpiredPasswordInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { challengeToken, newPassword } = req.body;
+
+    const { userId } = verifyChallengeToken(challengeToken, 'password_change');
+    const user = await User.findById(userId).select('+password +passwordHistory').populate({
+      path: 'roles',
+      populate: {
+        path: 'permissions'
+      }
+    });
+
+    if (!user || !user.isActive) {
+      const error = new Error('Invalid credentials') as ApiError;
+      error.statusCode = 401;
+      throw error;
+    }
+
+    // Set new password (must satisfy the policy and not be a recent one)
+    const policy = await assertPasswordAllowed(newPassword, { name: user.name, email: user.email }, user);
+    user.setPassword(newPassword, policy.historySize);
+    await user.save();
+
+    // Sign out everywhere else, then start the new session
+    await revokeUserSessions(user._id as Types.ObjectId, 'password_changed');
+    const { user: userData, tokens } = await signInUser(user, req);
+
+    res.status(200).json({
+      success: true,
+      message: 'Password changed successfully',
+      data: {
+        user: userData,
+        tokens
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
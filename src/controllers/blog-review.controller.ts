@@ -0,0 +1,276 @@
+import { requestHasPermission } from '@/middleware/permission.middlware';
+import { Blog, BlogReviewComment, User } from '@/models';
+import {
+  AssignReviewersInput,
+  BlogIdParam,
+  CreateReviewCommentInput,
+  ReviewQueueQuery,
+  TransitionBlogInput
+} from '@/schemas/blog.schema';
+import { notifyUsers } from '@/socket';
+import { ApiError } from '@/types';
+import { canAccessDocument } from '@/utils/access-policy';
+import {
+  assertTransition,
+  getTransitionUpdate,
+  notifyReviewParticipants,
+  recordTransition,
+  REVIEW_STATUSES
+} from '@/utils/blog-workflow';
+import { sendBlogReviewEmail } from '@/utils/email';
+import logger from '@/utils/logger';
+import { accessAllows, getUserAccess } from '@/utils/permission-cache';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+const findBlog = async (blogId: string) => {
+  const blog = await Blog.findById(blogId);
+  if (!blog) {
+    const error = new Error('Blog not found') as ApiError;
+    error.statusCode = 404;
+    throw error;
+  }
+  return blog;
+};
+
+// The review thread is open to the author, the people who may edit the blog and to reviewers
+const findReviewableBlog = async (req: Request<any, any, any, any>, blogId: string) => {
+  const blog = await findBlog(blogId);
+  const isAuthor = blog.author.toString() === req.user!._id!.toString();
+
+  if (!isAuthor && !canAccessDocument(req, 'blogs:update', blog) && !requestHasPermission(req, 'blogs:approve')) {
+    const error = new Error('Not authorized to view the review of this blog') as ApiError;
+    error.statusCode = 403;
+    throw error;
+  }
+
+  return blog;
+};
+
+/**
+ * @desc    Move a blog through the editorial workflow (submit, approve, request changes, publish...)
+ * @route   POST /api/blogs/:id/transition
+ * @access  Private
+ */
+export const transitionBlog = async (
+  req: Request<BlogIdParam, {}, TransitionBlogInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const blog = await findBlog(req.params.id);
+    const { status, comment } = req.body;
+    const from = blog.status;
+
+    assertTransition(req, blog, status);
+
+    blog.set(getTransitionUpdate(blog, status, req.user!._id as Types.ObjectId));
+    await blog.save();
+
+    await recordTransition(blog, from, req.user!, comment);
+
+    res.status(200).json({
+      success: true,
+      message: `Blog moved from ${from} to ${status}`,
+      data: {
+        blog
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Set the reviewers of a blog; once assigned, only they can approve it or request changes.
+ *          Reviewers are chosen by the author or by someone managing blogs.
+ * @route   PUT /api/blogs/:id/reviewers
+ * @access  Private
+ */
+export const assignReviewers = async (
+  req: Request<BlogIdParam, {}, AssignReviewersInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const blog = await findBlog(req.params.id);
+
+    const isAuthor = blog.author.toString() === req.user!._id!.toString();
+    if (!isAuthor && !requestHasPermission(req, 'blogs:manage')) {
+      const error = new Error('Only the author of a blog or a blog manager can choose its reviewers') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
+    const reviewerIds = [...new Set(req.body.reviewers)];
+
+    const reviewers = await User.find({ _id: { $in: reviewerIds }, isActive: true }).select('name email roles');
+    if (reviewers.length !== reviewerIds.length) {
+      const error = new Error('Reviewers must be existing, active users') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    for (const reviewer of reviewers) {
+      if (reviewer._id!.toString() === blog.author.toString()) {
+        const error = new Error('The author of a blog cannot review it') as ApiError;
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const access = await getUserAccess(reviewer._id as Types.ObjectId, reviewer.getActiveRoleIds());
+      if (!accessAllows(access, 'blogs:approve')) {
+        const error = new Error(`${reviewer.name} does not have the blogs:approve permission`) as ApiError;
+        error.statusCode = 400;
+        throw error;
+      }
+    }
+
+    const previousIds = blog.reviewers.map(reviewer => reviewer.toString());
+    blog.reviewers = reviewers.map(reviewer => reviewer._id as Types.ObjectId);
+    await blog.save();
+
+    // Only reviewers new to the blog are told about it
+    const actorId = req.user!._id!.toString();
+    const added = reviewers.filter(reviewer => {
+      const id = reviewer._id!.toString();
+      return !previousIds.includes(id) && id !== actorId;
+    });
+
+    notifyUsers(added.map(reviewer => reviewer._id as Types.ObjectId), 'notification:blog-review', {
+      type: 'assigned',
+      blog: { _id: blog._id, title: blog.title, status: blog.status },
+      actor: { _id: req.user!._id, name: req.user!.name },
+      comment: null
+    });
+    for (const reviewer of added) {
+      await sendBlogReviewEmail(reviewer, blog, `${req.user!.name} asked you to review "${blog.title}".`)
+        .catch(error => logger.error(`Blog review email could not be sent to ${reviewer.email}`, error));
+    }
+
+    await blog.populate('reviewers', 'name email');
+
+    res.status(200).json({
+      success: true,
+      message: 'Reviewers updated successfully',
+      data: {
+        reviewers: blog.reviewers
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Get the review thread of a blog, oldest first, including its status changes
+ * @route   GET /api/blogs/:id/review-comments
+ * @access  Private
+ */
+export const getReviewComments = async (req: Request<BlogIdParam>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const blog = await findReviewableBlog(req, req.params.id);
+
+    const comments = await BlogReviewComment.find({ blog: blog._id })
+      .populate('author', 'name email')
+      .sort('createdAt');
+
+    res.status(200).json({
+      success: true,
+      data: {
+        comments
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Comment on the review of a blog
+ * @route   POST /api/blogs/:id/review-comments
+ * @access  Private
+ */
+export const addReviewComment = async (
+  req: Request<BlogIdParam, {}, CreateReviewCommentInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const blog = await findReviewableBlog(req, req.params.id);
+
+    const comment = await BlogReviewComment.create({
+      blog: blog._id,
+      author: req.user!._id,
+      body: req.body.body
+    });
+
+    await notifyReviewParticipants(
+      blog,
+      req.user!,
+      { type: 'comment', commentId: comment._id },
+      `${req.user!.name} commented on the review of "${blog.title}".`,
+      comment.body
+    );
+
+    await comment.populate('author', 'name email');
+
+    res.status(201).json({
+      success: true,
+      message: 'Comment added successfully',
+      data: {
+        comment
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    List the blogs going through review, longest waiting first
+ * @route   GET /api/blogs/reviews
+ * @access  Private
+ */
+export const getReviewQueue = async (
+  req: Request<{}, {}, {}, ReviewQueueQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { status, assigned, page = '1', limit = '20' } = req.query;
+
+    const query: Record<string, any> = { status: status || { $in: REVIEW_STATUSES } };
+    if (assigned === 'true') query.reviewers = req.user!._id;
+
+    const pageNum = Math.max(Number(page), 1);
+    const limitNum = Math.min(Math.max(Number(limit), 1), 100);
+
+    const [blogs, total] = await Promise.all([
+      Blog.find(query)
+        .select('title slug status author reviewers submittedAt approvedBy approvedAt updatedAt')
+        .populate('author', 'name email')
+        .populate('reviewers', 'name email')
+        .populate('approvedBy', 'name email')
+        .sort('submittedAt')
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      Blog.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        blogs,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,217 @@
+import { Blog, BlogRevision } from '@/models';
+import {
+  BlogIdParam,
+  BlogRevisionDiffQuery,
+  BlogRevisionParams,
+  BlogRevisionsQuery,
+  RestoreBlogRevisionInput
+} from '@/schemas/blog.schema';
+import { ApiError } from '@/types';
+import { canAccessDocument } from '@/utils/access-policy';
+import { diffRevisions, recordBlogChange, snapshotBlog } from '@/utils/blog-revisions';
+import { assertTransition, canReadUnpublishedBlog, getTransitionUpdate, recordTransition } from '@/utils/blog-workflow';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+const findBlog = async (blogId: string) => {
+  const blog = await Blog.findById(blogId);
+  if (!blog) {
+    const error = new Error('Blog not found') as ApiError;
+    error.statusCode = 404;
+    throw error;
+  }
+  return blog;
+};
+
+// Revisions hold unpublished text, so they are read like a blog that isn't published
+const findViewableBlog = async (req: Request<any, any, any, any>, blogId: string) => {
+  const blog = await findBlog(blogId);
+
+  if (!canReadUnpublishedBlog(req, blog)) {
+    const error = new Error('Not authorized to view the revisions of this blog') as ApiError;
+    error.statusCode = 403;
+    throw error;
+  }
+
+  return blog;
+};
+
+// Restoring a revision rewrites the blog, so it needs the right to edit it
+const findEditableBlog = async (req: Request<any, any, any, any>, blogId: string) => {
+  const blog = await findBlog(blogId);
+
+  if (!canAccessDocument(req, 'blogs:update', blog)) {
+    const error = new Error('Not authorized to restore revisions of this blog') as ApiError;
+    error.statusCode = 403;
+    throw error;
+  }
+
+  return blog;
+};
+
+const findRevision = async (blogId: string, number: number) => {
+  const revision = await BlogRevision.findOne({ blog: blogId, number }).populate('author', 'name email');
+  if (!revision) {
+    const error = new Error(`Revision ${number} not found`) as ApiError;
+    error.statusCode = 404;
+    throw error;
+  }
+  return revision;
+};
+
+/**
+ * @desc    List the revisions of a blog, newest first (without their content)
+ * @route   GET /api/blogs/:id/revisions
+ * @access  Private
+ */
+export const getBlogRevisions = async (
+  req: Request<BlogIdParam, {}, {}, BlogRevisionsQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const blog = await findViewableBlog(req, req.params.id);
+    const { page = '1', limit = '20' } = req.query;
+
+    const pageNum = Math.max(Number(page), 1);
+    const limitNum = Math.min(Math.max(Number(limit), 1), 100);
+
+    const [revisions, total] = await Promise.all([
+      BlogRevision.find({ blog: blog._id })
+        .select('-content')
+        .populate('author', 'name email')
+        .sort('-number')
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      BlogRevision.countDocuments({ blog: blog._id })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        revisions,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Compare two revisions of a blog
+ * @route   GET /api/blogs/:id/revisions/diff?from=:number&to=:number
+ * @access  Private
+ */
+export const diffBlogRevisions = async (
+  req: Request<BlogIdParam, {}, {}, BlogRevisionDiffQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const blog = await findViewableBlog(req, req.params.id);
+    const blogId = (blog._id as Types.ObjectId).toString();
+
+    const from = await findRevision(blogId, Number(req.query.from));
+    const to = req.query.to
+      ? await findRevision(blogId, Number(req.query.to))
+      : await BlogRevision.findOne({ blog: blogId }).sort('-number').populate('author', 'name email');
+
+    const summarize = (revision: typeof from) => ({
+      number: revision.number,
+      author: revision.author,
+      changeNote: revision.changeNote,
+      createdAt: revision.createdAt
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        from: summarize(from),
+        to: summarize(to!),
+        ...diffRevisions(from, to!)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Get a single revision of a blog with its content
+ * @route   GET /api/blogs/:id/revisions/:number
+ * @access  Private
+ */
+export const getBlogRevision = async (req: Request<BlogRevisionParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const blog = await findViewableBlog(req, req.params.id);
+    const revision = await findRevision((blog._id as Types.ObjectId).toString(), Number(req.params.number));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        revision
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Restore a revision: its text becomes the blog's content again, as a draft,
+ *          recorded as a new revision so the history is never rewritten
+ * @route   POST /api/blogs/:id/revisions/:number/restore
+ * @access  Private
+ */
+export const restoreBlogRevision = async (
+  req: Request<BlogRevisionParams, {}, RestoreBlogRevisionInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const blog = await findEditableBlog(req, req.params.id);
+    const number = Number(req.params.number);
+    const revision = await findRevision((blog._id as Types.ObjectId).toString(), number);
+
+    // Restored text has not been reviewed, so the blog goes back to draft
+    const from = blog.status;
+    if (from !== 'draft') {
+      assertTransition(req, blog, 'draft');
+    }
+
+    const previous = snapshotBlog(blog);
+    const updated = await Blog.findByIdAndUpdate(
+      blog._id,
+      { ...snapshotBlog(revision), ...getTransitionUpdate(blog, 'draft', req.user!._id as Types.ObjectId) },
+      { new: true, runValidators: true }
+    );
+
+    const restored = await recordBlogChange(updated!, previous, req.user!._id as Types.ObjectId, {
+      changeNote: req.body?.changeNote || `Restored revision ${number}`,
+      restoredFrom: number
+    });
+
+    if (from !== 'draft') {
+      await recordTransition(updated!, from, req.user!, `Restored revision ${number}`);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: restored
+        ? `Revision ${number} restored as a draft`
+        : `The blog already matches revision ${number}, it is now a draft`,
+      data: {
+        blog: updated,
+        revision: restored
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,9 +1,32 @@
+import { listTrash, restoreFromTrash } from '@/controllers/trash.controller';
+import { requestHasPermission } from '@/middleware/permission.middlware';
 import Blog from '@/models/blog.model';
-import { BlogIdParam, BlogQueryParams, BlogSlugParam, BlogStatusEnum, CreateBlogInput, UpdateBlogInput } from '@/schemas/blog.schema';
+import {
+  BlogIdParam,
+  BlogQueryParams,
+  BlogSlugParam,
+  BlogStatus,
+  BlogStatusEnum,
+  blogEditableFields,
+  CreateBlogInput,
+  UpdateBlogInput
+} from '@/schemas/blog.schema';
 import { notifyRoles } from '@/socket';
 import { ApiError } from '@/types';
+import { canAccessDocument, withAccessFilter } from '@/utils/access-policy';
+import { scopesAllow } from '@/utils/api-key';
+import { getChangedFields, recordBlogChange, recordInitialRevision, snapshotBlog } from '@/utils/blog-revisions';
+import {
+  assertTransition,
+  canReadUnpublishedBlog,
+  getTransitionUpdate,
+  INITIAL_STATUSES,
+  recordTransition,
+  REVIEW_STATUSES
+} from '@/utils/blog-workflow';
 import { mongoUtils } from '@/utils/common';
 import { NextFunction, Request, Response } from 'express';
+import _ from 'lodash';
 import { Types } from 'mongoose';
 
 // Update the Request interface in your types file to correctly type the user property
@@ -14,6 +37,18 @@ export interface Request extends Request {
 }
 */
 
+// Drafts and archived blogs are only listed for SuperAdmin, and for their
+// API keys only when the key is scoped to read blogs
+const canViewUnpublished = (req: Request<any, any, any, any>): boolean => {
+    if (!req.user || !req.user.hasRole("SuperAdmin")) return false;
+    return !req.apiKey || scopesAllow(req.apiKey.scopes, 'blogs:read');
+};
+
+// Reviewers also list the blogs going through review
+const canViewReviews = (req: Request<any, any, any, any>): boolean => {
+    return Boolean(req.user) && requestHasPermission(req, 'blogs:approve');
+};
+
 /**
  * @desc    Create a new blog
  * @route   POST /api/blogs
@@ -25,6 +60,13 @@ export const createBlog = async (
   next: NextFunction,
 ): Promise<void> => {
   try {
+    // Approving and publishing happen through the review workflow
+    if (req.body.status && !INITIAL_STATUSES.includes(req.body.status)) {
+      const error = new Error('New blogs start as a draft or in review') as ApiError
+      error.statusCode = 400
+      throw error
+    }
+
     if (!req.body.seo) {
       req.body.seo = {
         metaTitle: req.body.title,
@@ -33,7 +75,16 @@ export const createBlog = async (
       }
     }
 
-    const blog = await Blog.create({ ...req.body, author: req?.user?._id })
+    const blog = await Blog.create({
+      ..._.pick(req.body, blogEditableFields),
+      author: req?.user?._id,
+      submittedAt: req.body.status === 'in_review' ? new Date() : null,
+    })
+    await recordInitialRevision(blog, (req.user?._id as Types.ObjectId) || null)
+
+    if (blog.status === 'in_review') {
+      await recordTransition(blog, 'draft', req.user!)
+    }
 
     // Populate author details for the notification
     const populatedBlog = await Blog.findById(blog._id).populate("author", "name")
@@ -122,12 +173,15 @@ export const getBlogs = async (
 
         // Handle status filtering
           if (status && Object.values(BlogStatusEnum.enum).includes(status as any)) {
-            if (status !== BlogStatusEnum.enum.published && (!req.user || !req.user.hasRole("SuperAdmin"))) {
+            const isReview = REVIEW_STATUSES.includes(status as BlogStatus) && canViewReviews(req);
+            if (status !== BlogStatusEnum.enum.published && !isReview && !canViewUnpublished(req)) {
                 matchStage.status = BlogStatusEnum.enum.published;
             } else {
                 matchStage.status = status;
             }
-        } else if (!req.user || !req.user.hasRole("SuperAdmin")) {
+        } else if (canViewReviews(req) && !canViewUnpublished(req)) {
+            matchStage.status = { $in: [BlogStatusEnum.enum.published, ...REVIEW_STATUSES] };
+        } else if (!canViewUnpublished(req)) {
             matchStage.status = BlogStatusEnum.enum.published;
         }
 
@@ -156,8 +210,8 @@ export const getBlogs = async (
         // Build aggregation pipeline
         const aggregationPipeline: any[] = [];
 
-        // Match stage
-        aggregationPipeline.push({ $match: matchStage });
+        // Match stage, narrowed by the access policies of signed-in users
+        aggregationPipeline.push({ $match: withAccessFilter(req, 'blogs:read', matchStage) });
 
         // Lookup author
         aggregationPipeline.push({
@@ -201,7 +255,11 @@ export const getBlogs = async (
                     _id: 1,
                     name: 1,
                     email: 1,
-                    avatar: 1
+                    profile: {
+                        avatar: 1,
+                        slug: 1,
+                        jobTitle: 1
+                    }
                 }
             }
         });
@@ -280,7 +338,7 @@ export const getBlogById = async (
 ): Promise<void> => {
     try {
         const blog = await Blog.findById(req.params.id)
-            .populate('author', 'name avatar bio')
+            .populate('author', 'name profile.avatar profile.bio profile.slug profile.jobTitle')
             .populate('relatedPosts', 'title slug featuredImage publishedAt');
 
         if (!blog) {
@@ -289,26 +347,10 @@ export const getBlogById = async (
             throw error;
         }
 
-        const isPopulatedAuthor = typeof blog.author !== 'string' &&
-            blog.author !== null &&
-            typeof blog.author === 'object' &&
-            '_id' in blog.author;
-
-        if (blog.status !== 'published') {
-            if (!req.user) {
-                const error = new Error('Blog not found') as ApiError;
-                error.statusCode = 404;
-                throw error;
-            }
-
-            const authorId = isPopulatedAuthor ? (blog.author._id as Types.ObjectId).toString() : blog.author.toString();
-            const userId = (req.user._id as Types.ObjectId).toString();
-
-            if (userId !== authorId && !req.user.hasRole("SuperAdmin")) {
-                const error = new Error('Blog not found') as ApiError;
-                error.statusCode = 404;
-                throw error;
-            }
+        if (blog.status !== 'published' && !canReadUnpublishedBlog(req, blog)) {
+            const error = new Error('Blog not found') as ApiError;
+            error.statusCode = 404;
+            throw error;
         }
 
         await Blog.findByIdAndUpdate(req.params.id, { $inc: { views: 1 } });
@@ -335,7 +377,7 @@ export const getBlogBySlug = async (
 ): Promise<void> => {
     try {
         const blog = await Blog.findOne({ slug: req.params.slug })
-            .populate('author', 'name avatar bio')
+            .populate('author', 'name profile.avatar profile.bio profile.slug profile.jobTitle')
             .populate('relatedPosts', 'title slug featuredImage publishedAt');
 
         if (!blog) {
@@ -344,26 +386,10 @@ export const getBlogBySlug = async (
             throw error;
         }
 
-        const isPopulatedAuthor = typeof blog.author !== 'string' &&
-            blog.author !== null &&
-            typeof blog.author === 'object' &&
-            '_id' in blog.author;
-
-        if (blog.status !== 'published') {
-            if (!req.user) {
-                const error = new Error('Blog not found') as ApiError;
-                error.statusCode = 404;
-                throw error;
-            }
-
-            const authorId = isPopulatedAuthor ? (blog.author._id as Types.ObjectId).toString() : blog.author.toString();
-            const userId = (req.user._id as Types.ObjectId).toString();
-
-            if (userId !== authorId && !req.user.hasRole("SuperAdmin")) {
-                const error = new Error('Blog not found') as ApiError;
-                error.statusCode = 404;
-                throw error;
-            }
+        if (blog.status !== 'published' && !canReadUnpublishedBlog(req, blog)) {
+            const error = new Error('Blog not found') as ApiError;
+            error.statusCode = 404;
+            throw error;
         }
 
         await Blog.findByIdAndUpdate(blog._id, { $inc: { views: 1 } });
@@ -403,16 +429,12 @@ export const updateBlog = async (
             throw error;
         }
 
-        if (blog.author.toString() !== (req.user._id as Types.ObjectId).toString() && !req.user.hasRole("SuperAdmin")) {
+        if (!canAccessDocument(req, 'blogs:update', blog)) {
             const error = new Error('Not authorized to update this blog') as ApiError;
             error.statusCode = 403;
             throw error;
         }
 
-        if (req.body.status === 'published' && blog.status !== 'published') {
-            req.body.publishedAt = new Date();
-        }
-
         if ((req.body.title || req.body.excerpt) && !req.body.seo) {
             req.body.seo = {
                 ...(blog.seo || {}),
@@ -422,12 +444,47 @@ export const updateBlog = async (
             };
         }
 
+        const from = blog.status;
+        const { changeNote, status } = req.body;
+        const updates: Record<string, any> = _.omit(_.pick(req.body, blogEditableFields), 'status');
+
+        const previous = snapshotBlog(blog);
+
+        // Status changes follow the review workflow, with its permissions
+        const statusChanged = Boolean(status) && status !== from;
+        if (statusChanged) {
+            // Otherwise new text could ride along with an approval or publication without being reviewed
+            const contentChanged = getChangedFields(previous, snapshotBlog(new Blog({ ...blog.toObject(), ...updates }))).length > 0;
+            if (contentChanged) {
+                const error = new Error('Save the changes to a blog before changing its status') as ApiError;
+                error.statusCode = 400;
+                throw error;
+            }
+
+            assertTransition(req, blog, status);
+            Object.assign(updates, getTransitionUpdate(blog, status, req.user._id as Types.ObjectId));
+        }
+
         blog = await Blog.findByIdAndUpdate(
             req.params.id,
-            req.body,
+            updates,
             { new: true, runValidators: true }
         );
 
+        const revision = await recordBlogChange(blog!, previous, req.user._id as Types.ObjectId, { changeNote });
+
+        if (statusChanged) {
+            await recordTransition(blog!, from, req.user);
+        } else if (revision && blog!.status === 'approved') {
+            // The approval covered the reviewed text, edits go back to the reviewers
+            blog = await Blog.findByIdAndUpdate(
+                req.params.id,
+                getTransitionUpdate(blog!, 'in_review', req.user._id as Types.ObjectId),
+                { new: true }
+            );
+            await recordTransition(blog!, 'approved', req.user, 'Edited after approval');
+        }
+
         res.status(200).json({
             success: true,
             message: 'Blog updated successfully',
@@ -462,13 +519,13 @@ export const deleteBlog = async (
             throw error;
         }
 
-        if (blog.author.toString() !== (req?.user._id as Types.ObjectId).toString() && !req.user.hasRole("SuperAdmin")) {
+        if (!canAccessDocument(req, 'blogs:delete', blog)) {
             const error = new Error('Not authorized to delete this blog') as ApiError;
             error.statusCode = 403;
             throw error;
         }
 
-        await blog.deleteOne();
+        await blog.softDelete(req.user._id as Types.ObjectId);
 
         res.status(200).json({
             success: true,
@@ -480,6 +537,28 @@ export const deleteBlog = async (
     }
 };
 
+const blogTrash = {
+    model: Blog,
+    resource: 'blogs',
+    label: 'Blog',
+    key: 'blogs',
+    select: 'title slug status author deletedAt deletedBy'
+};
+
+/**
+ * @desc    Get deleted blogs
+ * @route   GET /api/blogs/trash
+ * @access  Private
+ */
+export const getDeletedBlogs = listTrash(blogTrash);
+
+/**
+ * @desc    Restore a deleted blog
+ * @route   POST /api/blogs/:id/restore
+ * @access  Private
+ */
+export const restoreBlog = restoreFromTrash(blogTrash);
+
 /**
  * @desc    Like/Unlike blog
  * @route   PUT /api/blogs/:id/like
@@ -533,7 +612,7 @@ export const getFeaturedBlogs = async (
             status: 'published',
             isFeatured: true
         })
-            .populate('author', 'name avatar')
+            .populate('author', 'name profile.avatar profile.slug')
             .sort('-publishedAt')
             .limit(5);
 
@@ -574,7 +653,7 @@ export const getRelatedBlogs = async (
                 { tags: { $in: blog.tags } }
             ]
         })
-            .populate('author', 'name avatar')
+            .populate('author', 'name profile.avatar profile.slug')
             .sort('-publishedAt')
             .limit(3);
 
@@ -1,9 +1,11 @@
+import { listTrash, restoreFromTrash } from '@/controllers/trash.controller';
 import Career from '@/models/career.model';
 import { CareerIdParam, CareerQueryParams, CareerSlugParam, CreateCareerInput, DepartmentParam, UpdateCareerInput, UpdateStatusInput } from '@/schemas/career.schema';
 import { notifyRoles } from '@/socket';
 import { ApiError } from '@/types';
 import { getSortStage } from '@/utils/common';
 import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
 
 /**
  * @desc    Create a new career
@@ -275,7 +277,7 @@ export const deleteCareer = async (
             throw error;
         }
 
-        await career.deleteOne();
+        await career.softDelete(req.user!._id as Types.ObjectId);
 
         res.status(200).json({
             success: true,
@@ -287,6 +289,28 @@ export const deleteCareer = async (
     }
 };
 
+const careerTrash = {
+    model: Career,
+    resource: 'careers',
+    label: 'Career',
+    key: 'careers',
+    select: 'title slug department status deletedAt deletedBy'
+};
+
+/**
+ * @desc    Get deleted careers
+ * @route   GET /api/careers/trash
+ * @access  Private/Admin
+ */
+export const getDeletedCareers = listTrash(careerTrash);
+
+/**
+ * @desc    Restore a deleted career
+ * @route   POST /api/careers/:id/restore
+ * @access  Private/Admin
+ */
+export const restoreCareer = restoreFromTrash(careerTrash);
+
 /**
  * @desc    Get careers by department
  * @route   GET /api/careers/department/:department
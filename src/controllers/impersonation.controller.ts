@@ -0,0 +1,119 @@
+import { User } from '@/models';
+import { UserIdParam } from '@/schemas/auth.schema';
+import { ApiError } from '@/types';
+import { recordAudit } from '@/utils/audit';
+import { getUserAccess } from '@/utils/permission-cache';
+import { createImpersonationSession, getSessionContext, revokeSession } from '@/utils/session';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+/**
+ * @desc    Start impersonating a user
+ * @route   POST /api/users/:id/impersonate
+ * @access  Private (SuperAdmin)
+ */
+export const impersonateUser = async (req: Request<UserIdParam>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const admin = req.user!;
+
+    if (req.apiKey) {
+      const error = new Error('Impersonation requires an interactive login, not an API key') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
+    if (id === (admin._id as Types.ObjectId).toString()) {
+      const error = new Error('You cannot impersonate yourself') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const user = await User.findById(id);
+    if (!user) {
+      const error = new Error('User not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+    user.$locals.access = await getUserAccess(user._id as Types.ObjectId, user.getActiveRoleIds());
+
+    if (!user.isActive) {
+      const error = new Error('Cannot impersonate a deactivated user') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    if (user.hasRole('SuperAdmin')) {
+      const error = new Error('Cannot impersonate another SuperAdmin') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
+    const { sessionId, accessToken, expiresAt } = await createImpersonationSession(
+      user._id as Types.ObjectId,
+      admin._id as Types.ObjectId,
+      getSessionContext(req)
+    );
+
+    await recordAudit({
+      actor: admin._id as Types.ObjectId,
+      onBehalfOf: user._id as Types.ObjectId,
+      action: 'impersonation.start',
+      targetType: 'User',
+      targetId: user._id as Types.ObjectId,
+      metadata: { sessionId }
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: `You are now impersonating ${user.name}`,
+      data: {
+        user: {
+          _id: user._id,
+          name: user.name,
+          email: user.email,
+          roles: user.roles
+        },
+        tokens: {
+          accessToken
+        },
+        expiresAt
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Stop impersonating and end the impersonation session
+ * @route   POST /api/auth/impersonation/end
+ * @access  Private (impersonation session)
+ */
+export const endImpersonation = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.impersonator || !req.sessionId) {
+      const error = new Error('You are not impersonating a user') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    await revokeSession(req.sessionId, 'impersonation_ended');
+
+    await recordAudit({
+      actor: req.impersonator._id as Types.ObjectId,
+      onBehalfOf: req.user!._id as Types.ObjectId,
+      action: 'impersonation.end',
+      targetType: 'User',
+      targetId: req.user!._id as Types.ObjectId,
+      metadata: { sessionId: req.sessionId }
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: 'Impersonation ended'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
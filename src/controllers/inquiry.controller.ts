@@ -1,3 +1,4 @@
+import { listTrash, restoreFromTrash } from '@/controllers/trash.controller';
 import { Inquiry, User } from '@/models';
 import {
   AssignInquiryBody,
@@ -9,6 +10,7 @@ import {
 } from '@/schemas/inquiry.schema';
 import { notifyRoles } from '@/socket';
 import { ApiError } from '@/types';
+import { canAccessDocument, withAccessFilter } from '@/utils/access-policy';
 import { mongoUtils } from '@/utils/common';
 import { sendInquiryNotification } from '@/utils/email';
 import { NextFunction, Request, Response } from 'express';
@@ -96,8 +98,8 @@ console.log(matchStage,"matchStage")
     // Build aggregation pipeline
     const aggregationPipeline: any[] = [];
 
-    // Match stage
-    aggregationPipeline.push({ $match: matchStage });
+    // Match stage, narrowed by the access policies
+    aggregationPipeline.push({ $match: withAccessFilter(req, 'inquiries:read', matchStage) });
 
     // Lookup assigned user
     aggregationPipeline.push({
@@ -220,7 +222,7 @@ export const getInquiry = async (
 
     const inquiry = await Inquiry.findById(id).populate('assignedTo', 'name email');
 
-    if (!inquiry) {
+    if (!inquiry || !canAccessDocument(req, 'inquiries:read', inquiry)) {
       const error = new Error('Inquiry not found') as ApiError;
       error.statusCode = 404;
       throw error;
@@ -302,6 +304,12 @@ export const updateInquiry = async (
       throw error;
     }
 
+    if (!canAccessDocument(req, 'inquiries:update', inquiry)) {
+      const error = new Error('Not authorized to update this inquiry') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
     // If assignedTo is provided, verify user exists
     if (updateData.assignedTo) {
       const user = await User.findById(updateData.assignedTo);
@@ -353,6 +361,12 @@ export const updateInquiryStatus = async (
       throw error;
     }
 
+    if (!canAccessDocument(req, 'inquiries:update', inquiry)) {
+      const error = new Error('Not authorized to update this inquiry') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
     // Update status
     // @ts-ignore
     inquiry.status = status;
@@ -392,6 +406,12 @@ export const assignInquiry = async (
       throw error;
     }
 
+    if (!canAccessDocument(req, 'inquiries:assign', inquiry)) {
+      const error = new Error('Not authorized to assign this inquiry') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
     // Check if user exists
     const user = await User.findById(assignedTo);
     if (!user) {
@@ -440,7 +460,13 @@ export const deleteInquiry = async (
       throw error;
     }
 
-    await inquiry.deleteOne();
+    if (!canAccessDocument(req, 'inquiries:delete', inquiry)) {
+      const error = new Error('Not authorized to delete this inquiry') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
+    await inquiry.softDelete(req.user!._id as mongoose.Types.ObjectId);
 
     res.status(200).json({
       success: true,
@@ -453,3 +479,25 @@ export const deleteInquiry = async (
     next(error);
   }
 };
+
+const inquiryTrash = {
+  model: Inquiry,
+  resource: 'inquiries',
+  label: 'Inquiry',
+  key: 'inquiries',
+  select: 'name email status assignedTo deletedAt deletedBy'
+};
+
+/**
+ * @desc    Get deleted inquiries
+ * @route   GET /api/inquiries/trash
+ * @access  Private (Admin)
+ */
+export const getDeletedInquiries = listTrash(inquiryTrash);
+
+/**
+ * @desc    Restore a deleted inquiry
+ * @route   POST /api/inquiries/:id/restore
+ * @access  Private (Admin)
+ */
+export const restoreInquiry = restoreFromTrash(inquiryTrash);
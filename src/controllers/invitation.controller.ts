@@ -0,0 +1,344 @@
+import { Invitation, Role, Settings, User } from '@/models';
+import {
+  AcceptInvitationInput,
+  InvitationIdParams,
+  InvitationsQuery,
+  InvitationTokenParams,
+  InviteUserInput
+} from '@/schemas/invitation.schema';
+import { ApiError } from '@/types';
+import { sendInvitationEmail } from '@/utils/email';
+import logger from '@/utils/logger';
+import { assertPasswordAllowed } from '@/utils/password-policy';
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+const DEFAULT_INVITATION_EXPIRY_HOURS = 72;
+
+const getInvitationValidity = async (): Promise<number> => {
+  const settings = await Settings.findOne();
+  const hours = settings?.authSettings?.invitationExpiryHours || DEFAULT_INVITATION_EXPIRY_HOURS;
+  return hours * 60 * 60 * 1000;
+};
+
+// Find a pending invitation by its emailed token, failing the same way for unknown and expired tokens
+const findPendingInvitation = async (token: string) => {
+  const tokenHash = crypto
+    .createHash('sha256')
+    .update(token)
+    .digest('hex');
+
+  const invitation = await Invitation.findOne({
+    tokenHash,
+    status: 'pending',
+    expiresAt: { $gt: new Date() }
+  });
+
+  if (!invitation) {
+    const error = new Error('Invalid or expired invitation') as ApiError;
+    error.statusCode = 400;
+    throw error;
+  }
+
+  return invitation;
+};
+
+// Email failures are logged rather than failing the request, the invitation can be resent
+const deliverInvitation = async (invitation: InstanceType<typeof Invitation>, inviterName: string, token: string): Promise<boolean> => {
+  try {
+    await sendInvitationEmail(invitation, inviterName, token);
+    return true;
+  } catch (error) {
+    logger.error(`Invitation email could not be sent to ${invitation.email}`, error);
+    return false;
+  }
+};
+
+/**
+ * @desc    Invite a user by email; they choose their own password on accept
+ * @route   POST /api/users/invite
+ * @access  Private (Admin)
+ */
+export const inviteUser = async (req: Request<{}, {}, InviteUserInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { name, roles = [] } = req.body;
+    const email = req.body.email.toLowerCase();
+
+    const existingUser = await User.findOne({ email }).setOptions({ withDeleted: true });
+    if (existingUser) {
+      const error = new Error('User already exists with this email') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const pendingInvitation = await Invitation.findOne({ email, status: 'pending' });
+    if (pendingInvitation) {
+      const error = new Error('A pending invitation already exists for this email, resend it instead') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const roleIds = [...new Set(roles)];
+    if (roleIds.length > 0) {
+      const validRoles = await Role.find({ _id: { $in: roleIds } }).distinct('_id');
+      if (validRoles.length !== roleIds.length) {
+        const error = new Error('One or more role IDs are invalid') as ApiError;
+        error.statusCode = 400;
+        throw error;
+      }
+    }
+
+    const invitation = new Invitation({
+      email,
+      name,
+      roles: roleIds,
+      invitedBy: req.user!._id
+    });
+    const token = invitation.generateToken(await getInvitationValidity());
+    await invitation.save();
+
+    const emailSent = await deliverInvitation(invitation, req.user!.name, token);
+
+    res.status(201).json({
+      success: true,
+      message: emailSent ? 'Invitation sent successfully' : 'Invitation created, but the email could not be sent',
+      data: {
+        invitation,
+        emailSent
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    List invitations
+ * @route   GET /api/users/invites
+ * @access  Private (Admin)
+ */
+export const getInvitations = async (
+  req: Request<{}, {}, {}, InvitationsQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { status, email, page = '1', limit = '20' } = req.query;
+
+    const query: Record<string, any> = {};
+    if (status === 'expired') {
+      query.status = 'pending';
+      query.expiresAt = { $lte: new Date() };
+    } else if (status === 'pending') {
+      query.status = 'pending';
+      query.expiresAt = { $gt: new Date() };
+    } else if (status) {
+      query.status = status;
+    }
+    if (email) {
+      query.email = { $regex: email.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+    }
+
+    const pageNum = Math.max(Number(page), 1);
+    const limitNum = Math.min(Math.max(Number(limit), 1), 100);
+
+    const [invitations, total] = await Promise.all([
+      Invitation.find(query)
+        .populate('roles', 'name')
+        .populate('invitedBy', 'name email')
+        .populate('acceptedUser', 'name email')
+        .populate('revokedBy', 'name email')
+        .sort('-createdAt')
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      Invitation.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitations retrieved successfully',
+      data: {
+        invitations,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Resend a pending invitation with a new link and a fresh expiry
+ * @route   POST /api/users/invites/:id/resend
+ * @access  Private (Admin)
+ */
+export const resendInvitation = async (req: Request<InvitationIdParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const invitation = await Invitation.findById(req.params.id);
+    if (!invitation) {
+      const error = new Error('Invitation not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    if (invitation.status !== 'pending') {
+      const error = new Error(`Cannot resend an invitation that has been ${invitation.status}`) as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    // The previous link stops working once a new token is generated
+    const token = invitation.generateToken(await getInvitationValidity());
+    invitation.lastSentAt = new Date();
+    invitation.sendCount += 1;
+    await invitation.save();
+
+    const emailSent = await deliverInvitation(invitation, req.user!.name, token);
+
+    res.status(200).json({
+      success: true,
+      message: emailSent ? 'Invitation resent successfully' : 'Invitation renewed, but the email could not be sent',
+      data: {
+        invitation,
+        emailSent
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Revoke a pending invitation
+ * @route   DELETE /api/users/invites/:id
+ * @access  Private (Admin)
+ */
+export const revokeInvitation = async (req: Request<InvitationIdParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const invitation = await Invitation.findById(req.params.id);
+    if (!invitation) {
+      const error = new Error('Invitation not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    if (invitation.status !== 'pending') {
+      const error = new Error(`Cannot revoke an invitation that has been ${invitation.status}`) as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    invitation.status = 'revoked';
+    invitation.revokedAt = new Date();
+    invitation.revokedBy = req.user!._id as Types.ObjectId;
+    await invitation.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation revoked successfully',
+      data: {
+        invitation
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Get the invitation behind an invite link, to show on the accept page
+ * @route   GET /api/auth/invites/:token
+ * @access  Public
+ */
+export const getInvitationByToken = async (req: Request<InvitationTokenParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const invitation = await findPendingInvitation(req.params.token);
+    await invitation.populate('invitedBy', 'name');
+
+    res.status(200).json({
+      success: true,
+      data: {
+        invitation: {
+          email: invitation.email,
+          name: invitation.name,
+          invitedBy: (invitation.invitedBy as { name?: string } | null)?.name || null,
+          expiresAt: invitation.expiresAt
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Accept an invitation by choosing a password, creating the account
+ * @route   POST /api/auth/invites/:token/accept
+ * @access  Public
+ */
+export const acceptInvitation = async (
+  req: Request<InvitationTokenParams, {}, AcceptInvitationInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { password } = req.body;
+    const invitation = await findPendingInvitation(req.params.token);
+
+    const existingUser = await User.findOne({ email: invitation.email }).setOptions({ withDeleted: true });
+    if (existingUser) {
+      const error = new Error('User already exists with this email') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    await assertPasswordAllowed(password, { name: invitation.name, email: invitation.email });
+
+    // Roles deleted since the invitation was sent are dropped, falling back to the default role
+    let roles = await Role.find({ _id: { $in: invitation.roles } }).distinct('_id');
+    if (roles.length === 0) {
+      const defaultRole = await Role.findOne({ isDefault: true });
+      if (!defaultRole) {
+        const error = new Error('Default role not found') as ApiError;
+        error.statusCode = 500;
+        throw error;
+      }
+      roles = [defaultRole._id as Types.ObjectId];
+    }
+
+    // The invite link was delivered to this address, so it counts as verified
+    const user = await User.create({
+      name: invitation.name,
+      email: invitation.email,
+      password,
+      roles,
+      isEmailVerified: true,
+      invitedBy: invitation.invitedBy
+    });
+
+    invitation.status = 'accepted';
+    invitation.acceptedAt = new Date();
+    invitation.acceptedUser = user._id as Types.ObjectId;
+    await invitation.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Invitation accepted. You can now log in with your new password.',
+      data: {
+        user: {
+          _id: user._id,
+          name: user.name,
+          email: user.email
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
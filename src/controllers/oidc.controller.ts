@@ -0,0 +1,298 @@
+import { getOidcProvider, getOidcProviders, OidcProviderConfig } from '@/config/oidc.config';
+import { OidcState, Role, User } from '@/models';
+import { IUser } from '@/models/user.model';
+import { OidcCallbackQuery, OidcCompleteInput, OidcProviderParams } from '@/schemas/oidc.schema';
+import { ApiError } from '@/types';
+import logger from '@/utils/logger';
+import {
+  buildAuthorizationUrl,
+  exchangeCode,
+  fetchUserInfo,
+  generateOidcNonce,
+  generatePkce,
+  getDiscovery,
+  mapGroupsToRoles,
+  OidcClaims,
+  verifyIdToken
+} from '@/utils/oidc';
+import { completeLogin, getLoginMessage } from '@/utils/session';
+import { hashToken } from '@/utils/token';
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+// Time the user has to finish the login at the identity provider
+const OIDC_STATE_TTL_MS = 10 * 60 * 1000;
+// Time the frontend has to exchange the login ticket
+const OIDC_TICKET_TTL_MS = 2 * 60 * 1000;
+
+// Binds a login to the browser that started it, so a callback URL from someone
+// else's login (login CSRF) is refused. Lax, as the callback is a cross-site redirect.
+const OIDC_STATE_COOKIE = 'oidcState';
+const oidcStateCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/api/auth/oidc'
+};
+
+const stateMatchesCookie = (req: Request<any, any, any, any>, state: string): boolean => {
+  const cookie = req.cookies?.[OIDC_STATE_COOKIE];
+  if (typeof cookie !== 'string' || cookie.length !== state.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(cookie), Buffer.from(state));
+};
+
+const getPostLoginUrl = (): string => {
+  return process.env.OIDC_POST_LOGIN_URL || `${process.env.FRONTEND_URL}/auth/oidc/callback`;
+};
+
+const redirectWithError = (res: Response, message: string): void => {
+  const url = new URL(getPostLoginUrl());
+  url.searchParams.set('error', message);
+  res.redirect(url.toString());
+};
+
+const findProvider = (name: string): OidcProviderConfig => {
+  const provider = getOidcProvider(name);
+  if (!provider) {
+    const error = new Error('Identity provider not found') as ApiError;
+    error.statusCode = 404;
+    throw error;
+  }
+  return provider;
+};
+
+// Find the user for an identity: by linked identity first, then by verified email,
+// and finally by creating one (JIT provisioning) when the provider allows sign up
+const resolveUser = async (provider: OidcProviderConfig, claims: OidcClaims): Promise<IUser> => {
+  const roleNames = mapGroupsToRoles(provider, claims);
+  const mappedRoles = roleNames.length > 0 ? await Role.find({ name: { $in: roleNames } }) : [];
+  const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : null;
+  const emailVerified = claims.email_verified === true;
+
+  // Deleted accounts are looked up too: they still hold their email, and must not sign in
+  let user = await User.findOne({
+    identities: { $elemMatch: { provider: provider.name, subject: claims.sub } }
+  }).setOptions({ withDeleted: true });
+
+  // Only link by email when the provider vouches for it
+  if (!user && email && emailVerified) {
+    user = await User.findOne({ email }).setOptions({ withDeleted: true });
+    if (user && !user.deletedAt) {
+      user.identities.push({ provider: provider.name, subject: claims.sub, email, linkedAt: new Date() });
+      user.isEmailVerified = true;
+      logger.info(`Linked ${provider.name} identity to existing user ${user._id}`);
+    }
+  }
+
+  if (user?.deletedAt) {
+    const error = new Error('This account has been deleted') as ApiError;
+    error.statusCode = 403;
+    throw error;
+  }
+
+  if (!user) {
+    if (!provider.allowSignup) {
+      const error = new Error('No account is linked to this identity') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
+    if (!email || !emailVerified) {
+      const error = new Error('Identity provider did not supply a verified email address') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
+    let roles = mappedRoles;
+    if (roles.length === 0) {
+      const defaultRole = await Role.findOne({ isDefault: true });
+      if (!defaultRole) {
+        const error = new Error('Default role not found') as ApiError;
+        error.statusCode = 500;
+        throw error;
+      }
+      roles = [defaultRole];
+    }
+
+    user = new User({
+      name: typeof claims.name === 'string' && claims.name.trim() ? claims.name.trim().slice(0, 50) : email.split('@')[0],
+      email,
+      // SSO users have no usable password until they reset it
+      password: crypto.randomBytes(32).toString('hex'),
+      roles: roles.map(role => role._id),
+      isEmailVerified: true,
+      identities: [{ provider: provider.name, subject: claims.sub, email, linkedAt: new Date() }]
+    });
+    logger.info(`Provisioned user ${email} from ${provider.name}`);
+  } else if (provider.syncRoles && mappedRoles.length > 0) {
+    user.roles = mappedRoles.map(role => role._id as Types.ObjectId);
+  }
+
+  await user.save();
+  return user;
+};
+
+/**
+ * @desc    List the configured identity providers
+ * @route   GET /api/auth/oidc/providers
+ * @access  Public
+ */
+export const getProviders = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Identity providers retrieved successfully',
+      data: {
+        items: getOidcProviders().map(provider => ({
+          name: provider.name,
+          displayName: provider.displayName || provider.name
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Start an OIDC login by redirecting to the identity provider
+ * @route   GET /api/auth/oidc/:provider
+ * @access  Public
+ */
+export const startOidcLogin = async (req: Request<OidcProviderParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const provider = findProvider(req.params.provider);
+    const discovery = await getDiscovery(provider);
+
+    const state = generateOidcNonce();
+    const nonce = generateOidcNonce();
+    const { codeVerifier, codeChallenge } = generatePkce();
+
+    await OidcState.create({
+      state,
+      provider: provider.name,
+      codeVerifier,
+      nonce,
+      expiresAt: new Date(Date.now() + OIDC_STATE_TTL_MS)
+    });
+
+    res.cookie(OIDC_STATE_COOKIE, state, { ...oidcStateCookieOptions, maxAge: OIDC_STATE_TTL_MS });
+    res.redirect(buildAuthorizationUrl(provider, discovery, { state, nonce, codeChallenge }));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Handle the identity provider's redirect and hand a one-time login ticket to the frontend
+ * @route   GET /api/auth/oidc/:provider/callback
+ * @access  Public
+ */
+export const oidcCallback = async (
+  req: Request<OidcProviderParams, {}, {}, OidcCallbackQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const provider = findProvider(req.params.provider);
+    const { code, state, error: providerError } = req.query;
+    res.clearCookie(OIDC_STATE_COOKIE, oidcStateCookieOptions);
+
+    // A state can only be used once, and only by the browser that started the login
+    const oidcState = state && stateMatchesCookie(req, state)
+      ? await OidcState.findOneAndDelete({
+          state,
+          provider: provider.name,
+          ticketHash: null,
+          expiresAt: { $gt: new Date() }
+        })
+      : null;
+
+    if (!oidcState) {
+      return redirectWithError(res, 'Login session expired, please try again');
+    }
+
+    if (providerError || !code) {
+      return redirectWithError(res, 'Login was cancelled or rejected by the identity provider');
+    }
+
+    const discovery = await getDiscovery(provider);
+    const tokens = await exchangeCode(provider, discovery, code, oidcState.codeVerifier);
+    const idTokenClaims = await verifyIdToken(provider, discovery, tokens.id_token, oidcState.nonce);
+    const claims = await fetchUserInfo(discovery, tokens.access_token, idTokenClaims);
+
+    const user = await resolveUser(provider, claims);
+    if (!user.isActive) {
+      return redirectWithError(res, 'Your account has been deactivated');
+    }
+
+    // Tokens are never put in a URL; the frontend exchanges this ticket for them
+    const ticket = crypto.randomBytes(32).toString('hex');
+    await OidcState.create({
+      state: oidcState.state,
+      provider: provider.name,
+      codeVerifier: oidcState.codeVerifier,
+      nonce: oidcState.nonce,
+      user: user._id,
+      ticketHash: hashToken(ticket),
+      expiresAt: new Date(Date.now() + OIDC_TICKET_TTL_MS)
+    });
+
+    const url = new URL(getPostLoginUrl());
+    url.searchParams.set('ticket', ticket);
+    res.redirect(url.toString());
+  } catch (error) {
+    const apiError = error as ApiError;
+    if (apiError.statusCode && apiError.statusCode < 500) {
+      return redirectWithError(res, apiError.message);
+    }
+    logger.error('OIDC login failed', error);
+    next(error);
+  }
+};
+
+/**
+ * @desc    Exchange a one-time OIDC login ticket for tokens (or a two-factor challenge)
+ * @route   POST /api/auth/oidc/complete
+ * @access  Public
+ */
+export const completeOidcLogin = async (req: Request<{}, {}, OidcCompleteInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { ticket } = req.body;
+
+    const oidcState = await OidcState.findOneAndDelete({
+      ticketHash: hashToken(ticket),
+      expiresAt: { $gt: new Date() }
+    });
+
+    if (!oidcState || !oidcState.user) {
+      const error = new Error('Invalid or expired login ticket') as ApiError;
+      error.statusCode = 401;
+      throw error;
+    }
+
+    const user = await User.findById(oidcState.user).populate({
+      path: 'roles',
+      populate: {
+        path: 'permissions'
+      }
+    });
+
+    if (!user || !user.isActive) {
+      const error = new Error('Invalid credentials') as ApiError;
+      error.statusCode = 401;
+      throw error;
+    }
+
+    const result = await completeLogin(user, req);
+
+    res.status(200).json({
+      success: true,
+      message: getLoginMessage(result),
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
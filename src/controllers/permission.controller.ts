@@ -1,8 +1,14 @@
-import { Permission, Role } from '@/models';
+import { Permission, Role, User } from '@/models';
 import { CreatePermissionInput, PermissionIdParam, UpdatePermissionInput } from '@/schemas/auth.schema';
+import { ExplainPermissionQuery } from '@/schemas/permission.schema';
 import { ApiError } from '@/types';
+import { explainPermission, listAccessibleRoutes } from '@/utils/access-explain';
+import { compileAccess, invalidateAllAccess } from '@/utils/permission-cache';
 import { mongoUtils } from '@/utils/common';
+import { getPermissionCatalog } from '@/utils/permission-registry';
+import { loadRoleGraph } from '@/utils/role-hierarchy';
 import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
 
 /**
  * @desc    Get all permissions
@@ -141,6 +147,79 @@ export const getPermissions = async (
   }
 };
 
+/**
+ * @desc    Get the permission catalog grouped by resource, flagging unregistered and unused permissions
+ * @route   GET /api/permissions/catalog
+ * @access  Private (Admin)
+ */
+export const getPermissionsCatalog = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const resources = await getPermissionCatalog();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        resources,
+        unused: resources.flatMap(resource => resource.permissions.filter(permission => !permission.used).map(permission => permission.code))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Explain whether a user holds a permission and through which roles
+ * @route   GET /api/permissions/explain?userId=&permission=
+ * @access  Private (Admin)
+ */
+export const explainUserPermission = async (
+  req: Request<{}, {}, {}, ExplainPermissionQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, permission, includeRoutes } = req.query;
+
+    const user = await User.findById(userId);
+    if (!user) {
+      const error = new Error('User not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    // Expired and not yet started role assignments take no part in permission checks
+    const activeRoleIds = user.getActiveRoleIds().map(roleId => roleId.toString());
+    const graph = await loadRoleGraph(user.roles as Types.ObjectId[]);
+    const explanation = explainPermission(graph, activeRoleIds, permission);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        user: {
+          _id: user._id,
+          name: user.name,
+          email: user.email,
+          isActive: user.isActive
+        },
+        ...explanation,
+        inactiveRoles: user.roleAssignments
+          .filter(assignment => !activeRoleIds.includes(assignment.role.toString()))
+          .map(assignment => ({
+            role: graph.get(assignment.role.toString())?.name || assignment.role,
+            startsAt: assignment.startsAt,
+            expiresAt: assignment.expiresAt
+          })),
+        ...(includeRoutes === 'true' && {
+          routes: listAccessibleRoutes(await compileAccess(activeRoleIds))
+        })
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @desc    Get permission by ID
  * @route   GET /api/permissions/:id
@@ -248,6 +327,7 @@ export const updatePermission = async (req: Request<PermissionIdParam, {}, Updat
       },
       { new: true, runValidators: true }
     );
+    invalidateAllAccess();
 
     if (!permission) {
       const error = new Error('Permission not found') as ApiError;
@@ -294,6 +374,7 @@ export const deletePermission = async (req: Request<PermissionIdParam>, res: Res
 
     // Delete permission
     await Permission.findByIdAndDelete(id);
+    invalidateAllAccess();
 
     res.status(200).json({
       success: true,
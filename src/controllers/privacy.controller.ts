@@ -0,0 +1,201 @@
+import { PrivacyRequest } from '@/models';
+import { EraseSubjectInput, PrivacyRequestsQuery, PrivacySubjectInput } from '@/schemas/privacy.schema';
+import { ApiError } from '@/types';
+import { recordAudit } from '@/utils/audit';
+import { getUserAccess } from '@/utils/permission-cache';
+import {
+  buildSubjectExport,
+  countSubjectData,
+  eraseSubjectData,
+  findSubjectData,
+  hashSubject,
+  SubjectData
+} from '@/utils/privacy';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+// Emails are sent in request bodies rather than URLs so they stay out of access logs
+
+const findSubjectOrFail = async (email: string): Promise<SubjectData> => {
+  const data = await findSubjectData(email);
+  const counts = countSubjectData(data);
+
+  if (counts.users + counts.inquiries + counts.applications + counts.invitations === 0) {
+    const error = new Error('No personal data found for this email address') as ApiError;
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * @desc    Find the records held about an email address, and the requests already handled for it
+ * @route   POST /api/privacy/lookup
+ * @access  Private (Admin)
+ */
+export const lookupSubjectData = async (req: Request<{}, {}, PrivacySubjectInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const data = await findSubjectData(req.body.email);
+    const previousRequests = await PrivacyRequest.find({ subjectHash: hashSubject(req.body.email) })
+      .populate('handledBy', 'name email')
+      .sort('-createdAt');
+
+    res.status(200).json({
+      success: true,
+      data: {
+        records: countSubjectData(data),
+        users: data.users.map(user => ({ _id: user._id, name: user.name, isActive: user.isActive, deletedAt: user.deletedAt, createdAt: user.createdAt })),
+        inquiries: data.inquiries.map(inquiry => ({ _id: inquiry._id, status: inquiry.status, deletedAt: inquiry.deletedAt, createdAt: inquiry.createdAt })),
+        applications: data.applications.map(application => ({ _id: application._id, career: application.career, status: application.status, deletedAt: application.deletedAt, createdAt: application.createdAt })),
+        invitations: data.invitations.map(invitation => ({ _id: invitation._id, status: invitation.status, createdAt: invitation.createdAt })),
+        previousRequests
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Export everything held about an email address as a ZIP of JSON files and uploaded files
+ * @route   POST /api/privacy/export
+ * @access  Private (Admin)
+ */
+export const exportSubjectData = async (req: Request<{}, {}, PrivacySubjectInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email, reference } = req.body;
+    const data = await findSubjectOrFail(email);
+    const { archive, failedFiles } = await buildSubjectExport(email, data);
+
+    const record = await PrivacyRequest.create({
+      type: 'export',
+      subjectHash: hashSubject(email),
+      reference: reference || null,
+      handledBy: req.user!._id,
+      records: countSubjectData(data),
+      failedFiles
+    });
+
+    await recordAudit({
+      actor: req.user!._id as Types.ObjectId,
+      action: 'privacy.export',
+      targetType: 'PrivacyRequest',
+      targetId: record._id as Types.ObjectId,
+      metadata: { records: record.records, failedFiles }
+    }, req);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="personal-data-${record._id}.zip"`);
+    res.setHeader('X-Privacy-Request-Id', String(record._id));
+    res.status(200).send(archive);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Anonymize every record tied to an email address and delete their uploaded files
+ * @route   POST /api/privacy/erase
+ * @access  Private (Admin)
+ */
+export const eraseSubject = async (req: Request<{}, {}, EraseSubjectInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email, reference } = req.body;
+    const data = await findSubjectOrFail(email);
+
+    for (const user of data.users) {
+      if ((user._id as Types.ObjectId).equals(req.user!._id as Types.ObjectId)) {
+        const error = new Error('You cannot erase your own account') as ApiError;
+        error.statusCode = 400;
+        throw error;
+      }
+
+      // Administrators lose their roles first, so erasing one never locks the system out by accident
+      user.$locals.access = await getUserAccess(user._id as Types.ObjectId, user.getActiveRoleIds());
+      if (user.hasRole('SuperAdmin') || user.hasRole('Admin')) {
+        const error = new Error('Remove the admin roles from this account before erasing it') as ApiError;
+        error.statusCode = 403;
+        throw error;
+      }
+    }
+
+    // Counted before erasing, the records no longer match the address afterwards
+    const records = countSubjectData(data);
+    const { failedFiles } = await eraseSubjectData(data, req.user!._id as Types.ObjectId);
+
+    const record = await PrivacyRequest.create({
+      type: 'erasure',
+      subjectHash: hashSubject(email),
+      reference: reference || null,
+      handledBy: req.user!._id,
+      records,
+      failedFiles
+    });
+
+    await recordAudit({
+      actor: req.user!._id as Types.ObjectId,
+      action: 'privacy.erasure',
+      targetType: 'PrivacyRequest',
+      targetId: record._id as Types.ObjectId,
+      metadata: { records, failedFiles }
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: failedFiles > 0
+        ? `Personal data erased, but ${failedFiles} stored file(s) could not be deleted`
+        : 'Personal data erased successfully',
+      data: {
+        request: record
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    List the data subject requests that have been handled
+ * @route   GET /api/privacy/requests
+ * @access  Private (Admin)
+ */
+export const getPrivacyRequests = async (
+  req: Request<{}, {}, {}, PrivacyRequestsQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { type, page = '1', limit = '20' } = req.query;
+
+    const query: Record<string, any> = {};
+    if (type) query.type = type;
+
+    const pageNum = Math.max(Number(page), 1);
+    const limitNum = Math.min(Math.max(Number(limit), 1), 100);
+
+    const [requests, total] = await Promise.all([
+      PrivacyRequest.find(query)
+        .populate('handledBy', 'name email')
+        .sort('-createdAt')
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      PrivacyRequest.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        requests,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
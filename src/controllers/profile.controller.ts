@@ -0,0 +1,150 @@
+import { ALLOWED_MIME_TYPES, FILE_SIZE_LIMITS } from '@/config/s3.config';
+import { Blog, User } from '@/models';
+import { AuthorBlogsQuery, AuthorSlugParams, UpdateProfileInput } from '@/schemas/profile.schema';
+import { ApiError } from '@/types';
+import logger from '@/utils/logger';
+import { toPublicProfile } from '@/utils/profile';
+import { deleteFile, FileCategory, uploadFile } from '@/utils/storage.utils';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+/**
+ * @desc    Get the current user's profile
+ * @route   GET /api/auth/me/profile
+ * @access  Private
+ */
+export const getMyProfile = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: {
+        profile: await toPublicProfile(req.user!)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Update the current user's profile; send `avatar` as a multipart file to replace the avatar
+ * @route   PUT /api/auth/me/profile
+ * @access  Private
+ */
+export const updateMyProfile = async (req: Request<{}, {}, UpdateProfileInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { bio, jobTitle, slug, socialLinks, removeAvatar } = req.body;
+    const user = req.user!;
+
+    if (slug && slug !== user.profile?.slug) {
+      const slugTaken = await User.exists({ 'profile.slug': slug, _id: { $ne: user._id } }).setOptions({ withDeleted: true });
+      if (slugTaken) {
+        const error = new Error('This author slug is already taken') as ApiError;
+        error.statusCode = 400;
+        throw error;
+      }
+      user.set('profile.slug', slug);
+    }
+
+    if (bio !== undefined) user.set('profile.bio', bio || null);
+    if (jobTitle !== undefined) user.set('profile.jobTitle', jobTitle || null);
+
+    if (socialLinks) {
+      for (const [network, url] of Object.entries(socialLinks)) {
+        if (url !== undefined) user.set(`profile.socialLinks.${network}`, url || null);
+      }
+    }
+
+    const previousAvatar = user.profile?.avatar || null;
+
+    if (req.file) {
+      const { buffer, originalname, mimetype, size } = req.file;
+
+      if (!ALLOWED_MIME_TYPES[FileCategory.PROFILE].includes(mimetype)) {
+        const error = new Error(`Avatars must be one of: ${ALLOWED_MIME_TYPES[FileCategory.PROFILE].join(', ')}`) as ApiError;
+        error.statusCode = 400;
+        throw error;
+      }
+
+      if (size > FILE_SIZE_LIMITS[FileCategory.PROFILE]) {
+        const error = new Error('Avatar is too large') as ApiError;
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const file = await uploadFile(buffer, originalname, mimetype, FileCategory.PROFILE, (user._id as Types.ObjectId).toString());
+      user.set('profile.avatar', file.key);
+    } else if (removeAvatar === true || removeAvatar === 'true') {
+      user.set('profile.avatar', null);
+    }
+
+    await user.save();
+
+    // The old image is only removed once the profile no longer points at it
+    if (previousAvatar && previousAvatar !== user.profile.avatar) {
+      await deleteFile(previousAvatar).catch(error => logger.error(`Could not delete old avatar ${previousAvatar}`, error));
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Profile updated successfully',
+      data: {
+        profile: await toPublicProfile(user)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Get an author's public profile with their published blogs
+ * @route   GET /api/authors/:slug
+ * @access  Public
+ */
+export const getAuthorBySlug = async (
+  req: Request<AuthorSlugParams, {}, {}, AuthorBlogsQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { slug } = req.params;
+    const { page = '1', limit = '10' } = req.query;
+
+    const author = await User.findOne({ 'profile.slug': slug.toLowerCase(), isActive: true });
+    if (!author) {
+      const error = new Error('Author not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    const pageNum = Math.max(Number(page), 1);
+    const limitNum = Math.min(Math.max(Number(limit), 1), 50);
+    const filter = { author: author._id, status: 'published' };
+
+    const [blogs, total] = await Promise.all([
+      Blog.find(filter)
+        .select('title slug excerpt featuredImage categories tags readingTime publishedAt views likes')
+        .sort('-publishedAt')
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      Blog.countDocuments(filter)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        author: await toPublicProfile(author),
+        blogs,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
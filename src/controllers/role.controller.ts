@@ -1,7 +1,13 @@
 import { Permission, Role, User } from '@/models';
-import { CreateRoleInput, RoleIdParam, RolePermissionsInput, UpdateRoleInput } from '@/schemas/auth.schema';
+import { CreateRoleInput, ImportRolesInput, ImportRolesQuery, RoleIdParam, RolePermissionsInput, SimulateRoleInput, UpdateRoleInput } from '@/schemas/auth.schema';
 import { ApiError } from '@/types';
+import { explainPermission, listAccessibleRoutes } from '@/utils/access-explain';
+import { compileAccess, invalidateAllAccess } from '@/utils/permission-cache';
+import { recordAudit } from '@/utils/audit';
+import { assertValidParentRoles, loadRoleGraph, resolveEffectivePermissions } from '@/utils/role-hierarchy';
+import { applyRoleImport, exportRoles, planRoleImport } from '@/utils/role-transfer';
 import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
 
 /**
  * @desc    Get all roles
@@ -10,7 +16,7 @@ import { NextFunction, Request, Response } from 'express';
  */
 export const getRoles = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const roles = await Role.find().populate('permissions');
+    const roles = await Role.find().populate('permissions').populate('parentRoles', 'name');
 
     res.status(200).json({
       success: true,
@@ -23,6 +29,65 @@ export const getRoles = async (req: Request, res: Response, next: NextFunction):
   }
 };
 
+/**
+ * @desc    Export all roles with their permission codes, parent roles and default flags
+ * @route   GET /api/roles/export
+ * @access  Private (Admin)
+ */
+export const exportRolesDocument = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const document = await exportRoles();
+
+    res.status(200).json({
+      success: true,
+      data: document
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Import a role document; `dryRun=true` only returns the diff, `prune=true` deletes roles missing from it
+ * @route   POST /api/roles/import
+ * @access  Private (SuperAdmin)
+ */
+export const importRolesDocument = async (
+  req: Request<{}, {}, ImportRolesInput, ImportRolesQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+    const prune = req.query.prune === 'true';
+
+    const plan = await planRoleImport(req.body, prune);
+
+    if (!dryRun) {
+      await applyRoleImport(plan);
+
+      await recordAudit({
+        actor: req.user!._id as Types.ObjectId,
+        action: 'roles.import',
+        targetType: 'Role',
+        metadata: { prune, diff: plan.diff }
+      }, req);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: dryRun ? 'Role import dry run completed' : 'Roles imported successfully',
+      data: {
+        dryRun,
+        prune,
+        diff: plan.diff
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @desc    Get role by ID
  * @route   GET /api/roles/:id
@@ -32,7 +97,7 @@ export const getRoleById = async (req: Request, res: Response, next: NextFunctio
   try {
     const { id } = req.params;
 
-    const role = await Role.findById(id).populate('permissions');
+    const role = await Role.findById(id).populate('permissions').populate('parentRoles', 'name');
 
     if (!role) {
       const error = new Error('Role not found') as ApiError;
@@ -51,6 +116,79 @@ export const getRoleById = async (req: Request, res: Response, next: NextFunctio
   }
 };
 
+/**
+ * @desc    Get the effective permissions of a role, including inherited ones, with their sources
+ * @route   GET /api/roles/:id/effective-permissions
+ * @access  Private (Admin)
+ */
+export const getRoleEffectivePermissions = async (req: Request<RoleIdParam>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const graph = await loadRoleGraph([id]);
+    const role = graph.get(id);
+
+    if (!role) {
+      const error = new Error('Role not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    const permissions = resolveEffectivePermissions(graph, id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        role: {
+          _id: role._id,
+          name: role.name
+        },
+        inheritedRoles: [...graph.values()]
+          .filter(inherited => inherited._id.toString() !== id)
+          .map(inherited => ({ _id: inherited._id, name: inherited.name })),
+        permissions
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Simulate the access of a role: explain the given permissions and list the routes it could call
+ * @route   POST /api/roles/:id/simulate
+ * @access  Private (Admin)
+ */
+export const simulateRole = async (req: Request<RoleIdParam, {}, SimulateRoleInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { permissions = [] } = req.body;
+
+    const graph = await loadRoleGraph([id]);
+    const role = graph.get(id);
+
+    if (!role) {
+      const error = new Error('Role not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        role: {
+          _id: role._id,
+          name: role.name
+        },
+        permissions: permissions.map(permission => explainPermission(graph, [id], permission)),
+        routes: listAccessibleRoutes(await compileAccess([id]))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @desc    Create a new role
  * @route   POST /api/roles
@@ -58,7 +196,7 @@ export const getRoleById = async (req: Request, res: Response, next: NextFunctio
  */
 export const createRole = async (req: Request<{},{},CreateRoleInput>, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { name, description, permissions, isDefault } = req.body;
+    const { name, description, permissions, parentRoles, isDefault, requireTwoFactor } = req.body;
 
     const existingRole = await Role.findOne({ name });
     if (existingRole) {
@@ -81,14 +219,20 @@ export const createRole = async (req: Request<{},{},CreateRoleInput>, res: Respo
       }
     }
 
+    if (parentRoles) {
+      await assertValidParentRoles(parentRoles);
+    }
+
     const role = await Role.create({
       name,
       description,
       permissions: permissions || [],
-      isDefault: isDefault || false
+      parentRoles: parentRoles || [],
+      isDefault: isDefault || false,
+      requireTwoFactor: requireTwoFactor || false
     });
 
-    await role.populate('permissions');
+    await role.populate(['permissions', { path: 'parentRoles', select: 'name' }]);
 
     res.status(201).json({
       success: true,
@@ -110,7 +254,7 @@ export const createRole = async (req: Request<{},{},CreateRoleInput>, res: Respo
 export const updateRole = async (req: Request<RoleIdParam,{},UpdateRoleInput>, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, description, permissions, isDefault } = req.body;
+    const { name, description, permissions, parentRoles, isDefault, requireTwoFactor } = req.body;
 
     let role = await Role.findById(id);
     if (!role) {
@@ -142,16 +286,23 @@ export const updateRole = async (req: Request<RoleIdParam,{},UpdateRoleInput>, r
       }
     }
 
+    if (parentRoles) {
+      await assertValidParentRoles(parentRoles, id);
+    }
+
     role = await Role.findByIdAndUpdate(
       id,
       {
         name: name || role.name,
         description: description || role.description,
         permissions: permissions || role.permissions,
-        isDefault: isDefault !== undefined ? isDefault : role.isDefault
+        parentRoles: parentRoles || role.parentRoles,
+        isDefault: isDefault !== undefined ? isDefault : role.isDefault,
+        requireTwoFactor: requireTwoFactor !== undefined ? requireTwoFactor : role.requireTwoFactor
       },
       { new: true, runValidators: true }
-    ).populate('permissions');
+    ).populate('permissions').populate('parentRoles', 'name');
+    invalidateAllAccess();
 
     if (!role) {
       const error = new Error('Role not found') as ApiError;
@@ -200,7 +351,15 @@ export const deleteRole = async (req: Request<RoleIdParam>, res: Response, next:
       throw error;
     }
 
+    const inheritingRoles = await Role.countDocuments({ parentRoles: id });
+    if (inheritingRoles > 0) {
+      const error = new Error('Cannot delete a role that other roles inherit from') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
     await Role.findByIdAndDelete(id);
+    invalidateAllAccess();
 
     res.status(200).json({
       success: true,
@@ -260,6 +419,7 @@ export const addPermissionsToRole = async (req: Request<RoleIdParam,{},RolePermi
       { $addToSet: { permissions: { $each: newPermissions } } },
       { new: true, runValidators: true }
     ).populate('permissions');
+    invalidateAllAccess();
 
     res.status(200).json({
       success: true,
@@ -303,6 +463,7 @@ export const removePermissionsFromRole = async (req: Request, res: Response, nex
       { $pullAll: { permissions } },
       { new: true, runValidators: true }
     ).populate('permissions');
+    invalidateAllAccess();
 
     res.status(200).json({
       success: true,
@@ -353,6 +514,7 @@ export const setRolePermissions = async (req: Request, res: Response, next: Next
       { permissions },
       { new: true, runValidators: true }
     ).populate('permissions');
+    invalidateAllAccess();
 
     res.status(200).json({
       success: true,
@@ -0,0 +1,182 @@
+import { Session, User } from '@/models';
+import { SessionIdParams, UserSessionIdParams, UserSessionsParams } from '@/schemas/session.schema';
+import { ApiError } from '@/types';
+import { revokeSession, revokeUserSessions } from '@/utils/session';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+// Sessions that can still be refreshed, most recently used first
+const findActiveSessions = (userId: string | Types.ObjectId) => {
+  return Session.find({
+    user: userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  })
+    .select('device userAgent ipAddress lastSeenAt createdAt expiresAt')
+    .sort('-lastSeenAt');
+};
+
+/**
+ * @desc    List the current user's active sessions
+ * @route   GET /api/auth/sessions
+ * @access  Private
+ */
+export const getMySessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const sessions = await findActiveSessions(req.user!._id as Types.ObjectId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: {
+        items: sessions.map(session => ({
+          ...session.toObject(),
+          isCurrent: (session._id as Types.ObjectId).toString() === req.sessionId
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Revoke one of the current user's sessions
+ * @route   DELETE /api/auth/sessions/:sessionId
+ * @access  Private
+ */
+export const revokeMySession = async (req: Request<SessionIdParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await Session.findOne({ _id: sessionId, user: req.user!._id, revokedAt: null });
+    if (!session) {
+      const error = new Error('Session not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    await revokeSession(sessionId, 'revoked_by_user');
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+      data: {
+        id: sessionId
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Revoke all of the current user's sessions except the current one
+ * @route   DELETE /api/auth/sessions
+ * @access  Private
+ */
+export const revokeMyOtherSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const revoked = await revokeUserSessions(req.user!._id as Types.ObjectId, 'revoked_by_user', req.sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Other sessions revoked successfully',
+      data: {
+        revoked
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    List a user's active sessions
+ * @route   GET /api/users/:id/sessions
+ * @access  Private (Admin)
+ */
+export const getUserSessions = async (req: Request<UserSessionsParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id);
+    if (!user) {
+      const error = new Error('User not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    const sessions = await findActiveSessions(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: {
+        items: sessions
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Force logout of one of a user's sessions
+ * @route   DELETE /api/users/:id/sessions/:sessionId
+ * @access  Private (Admin)
+ */
+export const revokeUserSession = async (req: Request<UserSessionIdParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id, sessionId } = req.params;
+
+    const session = await Session.findOne({ _id: sessionId, user: id, revokedAt: null });
+    if (!session) {
+      const error = new Error('Session not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    await revokeSession(sessionId, 'revoked_by_admin');
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+      data: {
+        id: sessionId
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Force logout of all of a user's sessions
+ * @route   DELETE /api/users/:id/sessions
+ * @access  Private (Admin)
+ */
+export const revokeAllUserSessions = async (req: Request<UserSessionsParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id);
+    if (!user) {
+      const error = new Error('User not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    const revoked = await revokeUserSessions(id, 'revoked_by_admin');
+
+    res.status(200).json({
+      success: true,
+      message: 'User sessions revoked successfully',
+      data: {
+        revoked
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
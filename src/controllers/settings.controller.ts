@@ -1,5 +1,7 @@
 import { Settings } from '@/models';
+import { UpdateAuthSettingsInput, UpdatePasswordPolicyInput } from '@/schemas/settings.schema';
 import { ApiError } from '@/types';
+import { getPasswordPolicy } from '@/utils/password-policy';
 import { NextFunction, Request, Response } from 'express';
 
 /**
@@ -115,4 +117,149 @@ export const updateEmailSettings = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * @desc    Get authentication settings
+ * @route   GET /api/settings/auth
+ * @access  Private (Admin)
+ */
+export const getAuthSettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const settings = await Settings.findOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Auth settings retrieved successfully',
+      data: {
+        authSettings: settings?.authSettings || { requireEmailVerification: false, invitationExpiryHours: 72 }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Update authentication settings
+ * @route   PUT /api/settings/auth
+ * @access  Private (Admin)
+ */
+export const updateAuthSettings = async (
+  req: Request<{}, {}, UpdateAuthSettingsInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { requireEmailVerification, invitationExpiryHours } = req.body;
+
+    // Find settings or create default if not exists
+    let settings = await Settings.findOne();
+
+    if (!settings) {
+      settings = await Settings.create({
+        emailSettings: {
+          notificationEmails: [],
+          fromEmail: 'noreply@example.com',
+          fromName: 'Agency Name'
+        },
+        authSettings: {
+          requireEmailVerification: requireEmailVerification ?? false,
+          invitationExpiryHours: invitationExpiryHours ?? 72
+        }
+      });
+    } else {
+      if (requireEmailVerification !== undefined) {
+        settings.authSettings.requireEmailVerification = requireEmailVerification;
+      }
+      if (invitationExpiryHours !== undefined) {
+        settings.authSettings.invitationExpiryHours = invitationExpiryHours;
+      }
+
+      await settings.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Auth settings updated successfully',
+      data: {
+        authSettings: settings.authSettings
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Get password policy
+ * @route   GET /api/settings/password-policy
+ * @access  Private (Admin)
+ */
+export const getPasswordPolicySettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const passwordPolicy = await getPasswordPolicy();
+
+    res.status(200).json({
+      success: true,
+      message: 'Password policy retrieved successfully',
+      data: {
+        passwordPolicy
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Update password policy
+ * @route   PUT /api/settings/password-policy
+ * @access  Private (Admin)
+ */
+export const updatePasswordPolicySettings = async (
+  req: Request<{}, {}, UpdatePasswordPolicyInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Find settings or create default if not exists
+    let settings = await Settings.findOne();
+
+    if (!settings) {
+      settings = await Settings.create({
+        emailSettings: {
+          notificationEmails: [],
+          fromEmail: 'noreply@example.com',
+          fromName: 'Agency Name'
+        },
+        passwordPolicy: req.body
+      });
+    } else {
+      settings.set('passwordPolicy', {
+        ...settings.toObject().passwordPolicy,
+        ...req.body
+      });
+
+      await settings.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Password policy updated successfully',
+      data: {
+        passwordPolicy: settings.passwordPolicy
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,97 @@
+import { RestoreParams, TrashQuery } from '@/schemas/trash.schema';
+import { ApiError } from '@/types';
+import { canAccessDocument, withAccessFilter } from '@/utils/access-policy';
+import { TRASH_RETENTION_DAYS } from '@/utils/trash-retention';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Model } from 'mongoose';
+
+interface TrashOptions {
+  model: Model<any>;
+  // Permission resource, e.g. `blogs`; deleting documents is what grants access to their trash
+  resource: string;
+  // Singular name used in messages, e.g. `Blog`
+  label: string;
+  // Key of the list in the response, e.g. `blogs`
+  key: string;
+  select?: string;
+  // Runs after a document is restored, e.g. to clear caches
+  onRestore?: (doc: any) => Promise<void> | void;
+}
+
+const DELETED = { deletedAt: { $ne: null } };
+
+/**
+ * Build a handler listing the soft deleted documents of a resource, most recently deleted first
+ */
+export const listTrash = ({ model, resource, key, select }: TrashOptions): RequestHandler<{}, any, {}, TrashQuery> => {
+  return async (req: Request<{}, any, {}, TrashQuery>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { page = '1', limit = '20' } = req.query;
+
+      const pageNum = Math.max(Number(page), 1);
+      const limitNum = Math.min(Math.max(Number(limit), 1), 100);
+      const filter = withAccessFilter(req, `${resource}:delete`, DELETED);
+
+      const [items, total] = await Promise.all([
+        model.find(filter)
+          .select(select || '')
+          .populate('deletedBy', 'name email')
+          .sort('-deletedAt')
+          .skip((pageNum - 1) * limitNum)
+          .limit(limitNum),
+        model.countDocuments(filter)
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          [key]: items,
+          retentionDays: TRASH_RETENTION_DAYS,
+          pagination: {
+            page: pageNum,
+            limit: limitNum,
+            total,
+            pages: Math.ceil(total / limitNum)
+          }
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Build a handler restoring a soft deleted document of a resource
+ */
+export const restoreFromTrash = ({ model, resource, label, onRestore }: TrashOptions): RequestHandler<RestoreParams> => {
+  return async (req: Request<RestoreParams>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const doc = await model.findOne({ _id: req.params.id, ...DELETED });
+      if (!doc) {
+        const error = new Error(`${label} not found in trash`) as ApiError;
+        error.statusCode = 404;
+        throw error;
+      }
+
+      if (!canAccessDocument(req, `${resource}:delete`, doc)) {
+        const error = new Error(`Not authorized to restore this ${label.toLowerCase()}`) as ApiError;
+        error.statusCode = 403;
+        throw error;
+      }
+
+      await doc.restore();
+      await onRestore?.(doc);
+
+      res.status(200).json({
+        success: true,
+        message: `${label} restored successfully`,
+        data: {
+          id: doc._id
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+};
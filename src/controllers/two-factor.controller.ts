@@ -0,0 +1,342 @@
+import { User } from '@/models';
+import { IUser } from '@/models/user.model';
+import {
+  DisableTwoFactorInput,
+  TwoFactorCodeInput,
+  TwoFactorLoginInput,
+  TwoFactorSetupInput
+} from '@/schemas/auth.schema';
+import { ApiError } from '@/types';
+import { completeLogin, getLoginMessage, isTwoFactorRequired } from '@/utils/session';
+import { hashToken, verifyChallengeToken } from '@/utils/token';
+import {
+  buildOtpauthUri,
+  generateBackupCodes,
+  generateTotpSecret,
+  normalizeBackupCode,
+  verifyTotp
+} from '@/utils/totp';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+const TWO_FACTOR_SECRET_FIELDS = '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.backupCodes +twoFactor.lastUsedStep';
+
+// Load a user together with the two-factor secrets and lockout state that are hidden by default
+const findUserWithTwoFactor = (userId: string | Types.ObjectId) => {
+  return User.findById(userId).select(`${TWO_FACTOR_SECRET_FIELDS} +failedLoginAttempts +lockUntil`).populate({
+    path: 'roles',
+    populate: {
+      path: 'permissions'
+    }
+  });
+};
+
+// Check a TOTP code (rejecting replays) or consume a backup code
+const verifySecondFactor = (user: IUser, code: string): boolean => {
+  const { secret, lastUsedStep, backupCodes } = user.twoFactor;
+
+  if (secret) {
+    const step = verifyTotp(secret, code);
+    if (step !== null && (lastUsedStep === null || step > lastUsedStep)) {
+      user.twoFactor.lastUsedStep = step;
+      return true;
+    }
+  }
+
+  const codeHash = hashToken(normalizeBackupCode(code));
+  if (backupCodes.includes(codeHash)) {
+    user.twoFactor.backupCodes = backupCodes.filter(hash => hash !== codeHash);
+    return true;
+  }
+
+  return false;
+};
+
+// Promote the pending secret once a code generated from it has been verified
+// Returns the plain backup codes, which are only ever shown once
+const activateTwoFactor = (user: IUser, step: number): string[] => {
+  const backupCodes = generateBackupCodes();
+
+  user.twoFactor.secret = user.twoFactor.pendingSecret;
+  user.twoFactor.pendingSecret = null;
+  user.twoFactor.enabled = true;
+  user.twoFactor.enabledAt = new Date();
+  user.twoFactor.lastUsedStep = step;
+  user.twoFactor.backupCodes = backupCodes.map(code => hashToken(normalizeBackupCode(code)));
+
+  return backupCodes;
+};
+
+const invalidCodeError = (): ApiError => {
+  const error = new Error('Invalid two-factor code') as ApiError;
+  error.statusCode = 401;
+  return error;
+};
+
+/**
+ * @desc    Complete login with a second factor (and finish mandatory enrollment)
+ * @route   POST /api/auth/login/2fa
+ * @access  Public (with challenge token)
+ */
+export const loginWithTwoFactor = async (req: Request<{}, {}, TwoFactorLoginInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    const { userId } = verifyChallengeToken(challengeToken, 'two_factor');
+    const user = await findUserWithTwoFactor(userId);
+
+    if (!user || !user.isActive) {
+      const error = new Error('Invalid credentials') as ApiError;
+      error.statusCode = 401;
+      throw error;
+    }
+
+    if (user.isLocked()) {
+      const error = new Error('Account temporarily locked due to failed login attempts') as ApiError;
+      error.statusCode = 423;
+      throw error;
+    }
+
+    let backupCodes: string[] | undefined;
+
+    if (user.twoFactor.enabled) {
+      if (!verifySecondFactor(user, code)) {
+        await user.registerFailedLogin();
+        throw invalidCodeError();
+      }
+    } else {
+      // A role requires 2FA and the user is enrolling as part of this login
+      if (!user.twoFactor.pendingSecret) {
+        const error = new Error('Two-factor enrollment has not been started') as ApiError;
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const step = verifyTotp(user.twoFactor.pendingSecret, code);
+      if (step === null) {
+        await user.registerFailedLogin();
+        throw invalidCodeError();
+      }
+
+      backupCodes = activateTwoFactor(user, step);
+    }
+
+    // Persist the consumed code before any further login step
+    await user.resetFailedLogins();
+    await user.save();
+
+    const result = await completeLogin(user, req, { secondFactorVerified: true });
+
+    res.status(200).json({
+      success: true,
+      message: getLoginMessage(result),
+      data: {
+        ...result,
+        ...(backupCodes && { backupCodes })
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Start two-factor enrollment and return the otpauth URI for the QR code
+ * @route   POST /api/auth/2fa/setup
+ * @access  Private (or Public with a login challenge token)
+ */
+export const setupTwoFactor = async (req: Request<{}, {}, TwoFactorSetupInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { challengeToken } = req.body;
+
+    let userId: string | Types.ObjectId | undefined = req.user?._id as Types.ObjectId | undefined;
+    if (!userId && challengeToken) {
+      userId = verifyChallengeToken(challengeToken, 'two_factor').userId;
+    }
+
+    if (!userId) {
+      const error = new Error('Not authorized to access this route') as ApiError;
+      error.statusCode = 401;
+      throw error;
+    }
+
+    const user = await findUserWithTwoFactor(userId);
+    if (!user || !user.isActive) {
+      const error = new Error('User not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    if (user.twoFactor.enabled) {
+      const error = new Error('Two-factor authentication is already enabled') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactor.pendingSecret = secret;
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app and confirm with a code',
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, process.env.TOTP_ISSUER || 'Picode')
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Confirm two-factor enrollment with a code from the authenticator app
+ * @route   POST /api/auth/2fa/verify
+ * @access  Private
+ */
+export const verifyTwoFactor = async (req: Request<{}, {}, TwoFactorCodeInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    const user = await findUserWithTwoFactor(req.user!._id as Types.ObjectId);
+    if (!user) {
+      const error = new Error('User not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    if (user.twoFactor.enabled) {
+      const error = new Error('Two-factor authentication is already enabled') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    if (!user.twoFactor.pendingSecret) {
+      const error = new Error('Two-factor enrollment has not been started') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const step = verifyTotp(user.twoFactor.pendingSecret, code);
+    if (step === null) {
+      throw invalidCodeError();
+    }
+
+    const backupCodes = activateTwoFactor(user, step);
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your backup codes somewhere safe.',
+      data: {
+        backupCodes
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Disable two-factor authentication
+ * @route   POST /api/auth/2fa/disable
+ * @access  Private
+ */
+export const disableTwoFactor = async (req: Request<{}, {}, DisableTwoFactorInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { password, code } = req.body;
+
+    const user = await User.findById(req.user!._id)
+      .select(`+password ${TWO_FACTOR_SECRET_FIELDS}`)
+      .populate('roles');
+
+    if (!user) {
+      const error = new Error('User not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    if (!user.twoFactor.enabled) {
+      const error = new Error('Two-factor authentication is not enabled') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    if (await isTwoFactorRequired(user)) {
+      const error = new Error('Two-factor authentication is mandatory for your role') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
+    const isMatch = await user.matchPassword(password);
+    if (!isMatch) {
+      const error = new Error('Password is incorrect') as ApiError;
+      error.statusCode = 401;
+      throw error;
+    }
+
+    if (!verifySecondFactor(user, code)) {
+      throw invalidCodeError();
+    }
+
+    user.twoFactor = {
+      enabled: false,
+      secret: null,
+      pendingSecret: null,
+      backupCodes: [],
+      lastUsedStep: null,
+      enabledAt: null
+    };
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Replace the backup codes with a new set
+ * @route   POST /api/auth/2fa/backup-codes
+ * @access  Private
+ */
+export const regenerateBackupCodes = async (req: Request<{}, {}, TwoFactorCodeInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    const user = await findUserWithTwoFactor(req.user!._id as Types.ObjectId);
+    if (!user) {
+      const error = new Error('User not found') as ApiError;
+      error.statusCode = 404;
+      throw error;
+    }
+
+    if (!user.twoFactor.enabled) {
+      const error = new Error('Two-factor authentication is not enabled') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    if (!verifySecondFactor(user, code)) {
+      throw invalidCodeError();
+    }
+
+    const backupCodes = generateBackupCodes();
+    user.twoFactor.backupCodes = backupCodes.map(backupCode => hashToken(normalizeBackupCode(backupCode)));
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Backup codes regenerated',
+      data: {
+        backupCodes
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,392 @@
+import { Role, User } from '@/models';
+import { BulkUserRolesInput } from '@/schemas/auth.schema';
+import { BulkCreateUsersBody, BulkUserIdsBody, bulkUserSchema } from '@/schemas/users.schema';
+import { ApiError } from '@/types';
+import { mongoUtils } from '@/utils/common';
+import { parseCsvRecords } from '@/utils/csv';
+import { sendSetPasswordEmail } from '@/utils/email';
+import logger from '@/utils/logger';
+import { getUserAccess, invalidateUserAccess } from '@/utils/permission-cache';
+import { addRoleAssignments, assertCanManageRoles, parseRoleAssignments } from '@/utils/role-assignment';
+import { revokeUserSessions } from '@/utils/session';
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import mongoose from 'mongoose';
+
+const MAX_IMPORT_ROWS = 500;
+
+// Set-password links sent to invited users stay valid for 72 hours
+const SET_PASSWORD_TOKEN_TTL_MS = 72 * 60 * 60 * 1000;
+
+interface BulkResult {
+  // Position in the request (1-based), or the spreadsheet row number for CSV imports
+  row: number;
+  userId?: string;
+  email?: string;
+  success: boolean;
+  message?: string;
+  errors?: { field: string; message: string }[];
+}
+
+const sendResults = (res: Response, message: string, results: BulkResult[]): void => {
+  const succeeded = results.filter(result => result.success).length;
+
+  res.status(200).json({
+    success: true,
+    message,
+    data: {
+      summary: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded
+      },
+      results
+    }
+  });
+};
+
+/**
+ * Validate and create invited users, sending each one a link to choose their password
+ */
+const createInvitedUsers = async (req: Request, rows: { row: number; input: unknown }[]): Promise<BulkResult[]> => {
+  const [roles, defaultRole] = await Promise.all([
+    Role.find().distinct('_id'),
+    Role.findOne({ isDefault: true }).select('_id')
+  ]);
+  const roleIds = new Set(roles.map(id => id.toString()));
+
+  const parsed = rows.map(({ row, input }) => ({ row, result: bulkUserSchema.safeParse(input) }));
+  const emails = parsed.flatMap(({ result }) => (result.success ? [result.data.email.toLowerCase()] : []));
+  const takenEmails = new Set(
+    (await User.find({ email: { $in: emails } }).setOptions({ withDeleted: true }).distinct('email')).map(email => email.toLowerCase())
+  );
+  const seenEmails = new Set<string>();
+  const results: BulkResult[] = [];
+
+  for (const { row, result } of parsed) {
+    if (!result.success) {
+      results.push({
+        row,
+        success: false,
+        errors: result.error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+      });
+      continue;
+    }
+
+    const { name, roles: rowRoles, isActive, isEmailVerified } = result.data;
+    const email = result.data.email.toLowerCase();
+
+    const fail = (message: string) => results.push({ row, email, success: false, message });
+
+    if (seenEmails.has(email)) {
+      fail('Email appears more than once in this import');
+      continue;
+    }
+    seenEmails.add(email);
+
+    if (takenEmails.has(email)) {
+      fail('User already exists with this email');
+      continue;
+    }
+
+    if (rowRoles?.some(role => !roleIds.has(role))) {
+      fail('One or more role IDs are invalid');
+      continue;
+    }
+
+    if (!rowRoles?.length && !defaultRole) {
+      fail('Default role not found');
+      continue;
+    }
+
+    try {
+      await assertCanManageRoles(req, rowRoles ?? []);
+
+      // Invited users never learn this password, they set their own from the emailed link
+      const user = new User({
+        name,
+        email,
+        password: crypto.randomBytes(32).toString('hex'),
+        roles: rowRoles?.length ? rowRoles : [defaultRole!._id],
+        isActive,
+        isEmailVerified
+      });
+      const resetToken = user.generatePasswordResetToken(SET_PASSWORD_TOKEN_TTL_MS);
+      await user.save();
+
+      let emailSent = true;
+      try {
+        await sendSetPasswordEmail(user, resetToken);
+      } catch (error) {
+        emailSent = false;
+        logger.error(`Set password email could not be sent to ${email}`, error);
+      }
+
+      results.push({
+        row,
+        userId: user._id!.toString(),
+        email,
+        success: true,
+        message: emailSent ? 'User invited' : 'User created, but the set password email could not be sent'
+      });
+    } catch (error) {
+      fail(error instanceof Error ? error.message : 'User could not be created');
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Run an operation for every requested user, reporting users that don't exist
+ */
+const forEachUser = async (
+  userIds: string[],
+  operation: (user: InstanceType<typeof User>) => Promise<string | void>
+): Promise<BulkResult[]> => {
+  const users = await User.find({ _id: { $in: userIds } });
+  const usersById = new Map(users.map(user => [user._id!.toString(), user]));
+  const results: BulkResult[] = [];
+
+  for (const [index, userId] of userIds.entries()) {
+    const user = usersById.get(userId);
+    if (!user) {
+      results.push({ row: index + 1, userId, success: false, message: 'User not found' });
+      continue;
+    }
+
+    try {
+      const message = await operation(user);
+      results.push({ row: index + 1, userId, email: user.email, success: true, ...(message && { message }) });
+    } catch (error) {
+      results.push({
+        row: index + 1,
+        userId,
+        email: user.email,
+        success: false,
+        message: error instanceof Error ? error.message : 'Operation failed'
+      });
+    }
+  }
+
+  return results;
+};
+
+const assertNotSelf = (req: Request, user: InstanceType<typeof User>, action: string): void => {
+  if (req.user!._id!.toString() === user._id!.toString()) {
+    throw new Error(`You cannot ${action} your own account`);
+  }
+};
+
+/**
+ * @desc    Create users in bulk; each user gets an email to set their password
+ * @route   POST /api/users/bulk/create
+ * @access  Private (Admin)
+ */
+export const bulkCreateUsers = async (req: Request<{}, {}, BulkCreateUsersBody>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const results = await createInvitedUsers(req, req.body.users.map((input, index) => ({ row: index + 1, input })));
+
+    sendResults(res, 'Bulk user creation completed', results);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Import users from a CSV file (columns: name, email, roles, isActive, isEmailVerified).
+ *          Roles are role names or IDs separated by `;`
+ * @route   POST /api/users/bulk/import
+ * @access  Private (Admin)
+ */
+export const importUsersFromCsv = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.file) {
+      const error = new Error('Please upload a CSV file') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    let parsed: ReturnType<typeof parseCsvRecords>;
+    try {
+      parsed = parseCsvRecords(req.file.buffer.toString('utf8'));
+    } catch (parseError) {
+      const error = new Error(`Invalid CSV file: ${(parseError as Error).message}`) as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const missingColumns = ['name', 'email'].filter(column => !parsed.headers.includes(column));
+    if (missingColumns.length > 0) {
+      const error = new Error(`Missing required columns: ${missingColumns.join(', ')}`) as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    if (parsed.records.length === 0 || parsed.records.length > MAX_IMPORT_ROWS) {
+      const error = new Error(`The file must contain between 1 and ${MAX_IMPORT_ROWS} users`) as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const roles = await Role.find().select('name');
+    const roleIdsByName = new Map(roles.map(role => [role.name.toLowerCase(), role._id!.toString()]));
+
+    // Empty cells are left out so the schema defaults apply
+    const toBoolean = (value: string) => mongoUtils.parseBoolean(value.toLowerCase()) ?? value;
+    const rows = parsed.records.map((record, index) => ({
+      // Header is row 1
+      row: index + 2,
+      input: {
+        name: record.name,
+        email: record.email,
+        ...(record.roles && {
+          roles: record.roles
+            .split(';')
+            .map(role => role.trim())
+            .filter(Boolean)
+            .map(role => roleIdsByName.get(role.toLowerCase()) || role)
+        }),
+        ...(record.isactive && { isActive: toBoolean(record.isactive) }),
+        ...(record.isemailverified && { isEmailVerified: toBoolean(record.isemailverified) })
+      }
+    }));
+
+    const results = await createInvitedUsers(req, rows);
+
+    sendResults(res, 'User import completed', results);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Deactivate users in bulk and sign them out everywhere
+ * @route   POST /api/users/bulk/deactivate
+ * @access  Private (Admin)
+ */
+export const bulkDeactivateUsers = async (req: Request<{}, {}, BulkUserIdsBody>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const results = await forEachUser(req.body.userIds, async user => {
+      assertNotSelf(req, user, 'deactivate');
+      if (!user.isActive) return 'User was already inactive';
+
+      user.isActive = false;
+      await user.save();
+      invalidateUserAccess(user._id as mongoose.Types.ObjectId);
+      await revokeUserSessions(user._id as mongoose.Types.ObjectId, 'user_deactivated');
+    });
+
+    sendResults(res, 'Bulk deactivation completed', results);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Reactivate users in bulk
+ * @route   POST /api/users/bulk/reactivate
+ * @access  Private (Admin)
+ */
+export const bulkReactivateUsers = async (req: Request<{}, {}, BulkUserIdsBody>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const results = await forEachUser(req.body.userIds, async user => {
+      if (user.isActive) return 'User was already active';
+
+      user.isActive = true;
+      await user.save();
+      invalidateUserAccess(user._id as mongoose.Types.ObjectId);
+    });
+
+    sendResults(res, 'Bulk reactivation completed', results);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Delete users in bulk (admin users are skipped)
+ * @route   POST /api/users/bulk/delete
+ * @access  Private (Admin)
+ */
+export const bulkDeleteUsers = async (req: Request<{}, {}, BulkUserIdsBody>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const results = await forEachUser(req.body.userIds, async user => {
+      assertNotSelf(req, user, 'delete');
+
+      user.$locals.access = await getUserAccess(user._id as mongoose.Types.ObjectId, user.getActiveRoleIds());
+      if (user.hasRole('Admin')) {
+        throw new Error('Cannot delete admin users');
+      }
+
+      await user.softDelete(req.user!._id as mongoose.Types.ObjectId);
+      invalidateUserAccess(user._id as mongoose.Types.ObjectId);
+      await revokeUserSessions(user._id as mongoose.Types.ObjectId, 'user_deleted');
+    });
+
+    sendResults(res, 'Bulk deletion completed', results);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Assign roles to users in bulk, optionally for a limited period
+ * @route   POST /api/users/bulk/roles/assign
+ * @access  Private (Admin)
+ */
+export const bulkAssignRoles = async (req: Request<{}, {}, BulkUserRolesInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const assignments = parseRoleAssignments(req.body.roles);
+    const roleIds = [...new Set(assignments.map(assignment => assignment.role))];
+
+    const validRoles = await Role.find({ _id: { $in: roleIds } }).distinct('_id');
+    if (validRoles.length !== roleIds.length) {
+      const error = new Error('One or more role IDs are invalid') as ApiError;
+      error.statusCode = 400;
+      throw error;
+    }
+
+    await assertCanManageRoles(req, roleIds);
+
+    const results = await forEachUser(req.body.userIds, async user => {
+      addRoleAssignments(user, assignments);
+      await user.save();
+      invalidateUserAccess(user._id as mongoose.Types.ObjectId);
+    });
+
+    sendResults(res, 'Bulk role assignment completed', results);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Remove roles from users in bulk (users must keep at least one role)
+ * @route   POST /api/users/bulk/roles/remove
+ * @access  Private (Admin)
+ */
+export const bulkRemoveRoles = async (req: Request<{}, {}, BulkUserRolesInput>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const roleIds = parseRoleAssignments(req.body.roles).map(assignment => assignment.role);
+    await assertCanManageRoles(req, roleIds);
+
+    const results = await forEachUser(req.body.userIds, async user => {
+      const remainingRoles = user.roles.filter(role => !roleIds.includes(role.toString()));
+      if (remainingRoles.length === user.roles.length) return 'User had none of these roles';
+      if (remainingRoles.length === 0) {
+        throw new Error('User must have at least one role');
+      }
+
+      await User.updateOne(
+        { _id: user._id },
+        { $pull: { roles: { $in: roleIds }, roleAssignments: { role: { $in: roleIds } } } }
+      );
+      invalidateUserAccess(user._id as mongoose.Types.ObjectId);
+    });
+
+    sendResults(res, 'Bulk role removal completed', results);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,21 +1,29 @@
+import { listTrash, restoreFromTrash } from '@/controllers/trash.controller';
 import { Role, User } from '@/models';
+import { IRole } from '@/models/role.model';
+import { IUser } from '@/models/user.model';
+import { UserIdParam, UserRolesInput } from '@/schemas/auth.schema';
 import { UserIdParams, UserQueryParams } from '@/schemas/users.schema';
 import { ApiError } from '@/types';
 import { mongoUtils } from '@/utils/common';
+import { assertPasswordAllowed } from '@/utils/password-policy';
+import { getUserAccess, invalidateUserAccess } from '@/utils/permission-cache';
+import { revokeUserSessions } from '@/utils/session';
+import { addRoleAssignments, assertCanManageRoles, parseRoleAssignments } from '@/utils/role-assignment';
 import { NextFunction, Request, Response } from 'express';
 import mongoose from 'mongoose';
 
 /**
- * @desc    Get user roles
- * @route   GET /api/users/:userId/roles
+ * @desc    Get user roles, with the time bounds of temporary assignments
+ * @route   GET /api/users/:id/roles
  * @access  Private (Admin)
  */
-export const getUserRoles = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const getUserRoles = async (req: Request<UserIdParam>, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { userId } = req.params;
+    const { id } = req.params;
 
     // Check if user exists
-    const user = await User.findById(userId).populate({
+    const user = await User.findById(id).populate<{ roles: IRole[] }>({
       path: 'roles',
       populate: {
         path: 'permissions'
@@ -28,10 +36,21 @@ export const getUserRoles = async (req: Request, res: Response, next: NextFuncti
       throw error;
     }
 
+    const roles = user.roles.map(role => {
+      const assignment = user.roleAssignments.find(entry => entry.role.toString() === role._id!.toString());
+
+      return {
+        ...role.toObject(),
+        startsAt: assignment?.startsAt || null,
+        expiresAt: assignment?.expiresAt || null,
+        active: user.isRoleActive(role._id as mongoose.Types.ObjectId)
+      };
+    });
+
     res.status(200).json({
       success: true,
       data: {
-        roles: user.roles
+        roles
       }
     });
   } catch (error) {
@@ -40,17 +59,17 @@ export const getUserRoles = async (req: Request, res: Response, next: NextFuncti
 };
 
 /**
- * @desc    Assign roles to a user
- * @route   POST /api/users/:userId/roles
+ * @desc    Assign roles to a user, optionally for a limited period
+ * @route   POST /api/users/:id/roles
  * @access  Private (Admin)
  */
-export const assignRolesToUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const assignRolesToUser = async (req: Request<UserIdParam, {}, UserRolesInput>, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { userId } = req.params;
+    const { id } = req.params;
     const { roles } = req.body;
 
     // Check if user exists
-    const user = await User.findById(userId);
+    const user = await User.findById(id);
     if (!user) {
       const error = new Error('User not found') as ApiError;
       error.statusCode = 404;
@@ -64,40 +83,25 @@ export const assignRolesToUser = async (req: Request, res: Response, next: NextF
       throw error;
     }
 
+    const assignments = parseRoleAssignments(roles);
+    const roleIds = [...new Set(assignments.map(assignment => assignment.role))];
+
     // Check if all roles exist
-    const validRoles = await Role.find({ _id: { $in: roles } }).distinct('_id');
-    if (validRoles.length !== roles.length) {
+    const validRoles = await Role.find({ _id: { $in: roleIds } }).distinct('_id');
+    if (validRoles.length !== roleIds.length) {
       const error = new Error('One or more role IDs are invalid') as ApiError;
       error.statusCode = 400;
       throw error;
     }
 
-    // Add roles to user (avoiding duplicates)
-    const currentRoleIds = user.roles.map(r => r.toString());
-    const newRoles = roles.filter(r => !currentRoleIds.includes(r.toString()));
-
-    if (newRoles.length === 0) {
-      res.status(200).json({
-        success: true,
-        message: 'No new roles to assign',
-        data: {
-          user: await User.findById(userId).populate({
-            path: 'roles',
-            populate: {
-              path: 'permissions'
-            }
-          })
-        }
-      });
-      return;
-    }
+    await assertCanManageRoles(req, roleIds);
 
-    // Update user
-    const updatedUser = await User.findByIdAndUpdate(
-      userId,
-      { $addToSet: { roles: { $each: newRoles } } },
-      { new: true, runValidators: true }
-    ).populate({
+    addRoleAssignments(user, assignments);
+
+    await user.save();
+    invalidateUserAccess(user._id as mongoose.Types.ObjectId);
+
+    const updatedUser = await User.findById(id).populate({
       path: 'roles',
       populate: {
         path: 'permissions'
@@ -118,15 +122,15 @@ export const assignRolesToUser = async (req: Request, res: Response, next: NextF
 
 /**
  * @desc    Remove roles from a user
- * @route   DELETE /api/users/:userId/roles
+ * @route   DELETE /api/users/:id/roles
  * @access  Private (Admin)
  */
-export const removeRolesFromUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const removeRolesFromUser = async (req: Request<UserIdParam, {}, UserRolesInput>, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { userId } = req.params;
+    const { id } = req.params;
     const { roles } = req.body;
 
-    const user = await User.findById(userId);
+    const user = await User.findById(id);
     if (!user) {
       const error = new Error('User not found') as ApiError;
       error.statusCode = 404;
@@ -139,8 +143,9 @@ export const removeRolesFromUser = async (req: Request, res: Response, next: Nex
       throw error;
     }
 
+    const roleIds = parseRoleAssignments(roles).map(assignment => assignment.role);
     const userRoles = user.roles.map(r => r.toString());
-    const rolesToRemove = roles.filter(r => userRoles.includes(r.toString()));
+    const rolesToRemove = roleIds.filter(r => userRoles.includes(r));
     const remainingRoles = userRoles.filter(r => !rolesToRemove.includes(r));
 
     if (remainingRoles.length === 0) {
@@ -149,9 +154,11 @@ export const removeRolesFromUser = async (req: Request, res: Response, next: Nex
       throw error;
     }
 
+    await assertCanManageRoles(req, rolesToRemove);
+
     const updatedUser = await User.findByIdAndUpdate(
-      userId,
-      { $pullAll: { roles } },
+      id,
+      { $pull: { roles: { $in: roleIds }, roleAssignments: { role: { $in: roleIds } } } },
       { new: true, runValidators: true }
     ).populate({
       path: 'roles',
@@ -159,6 +166,7 @@ export const removeRolesFromUser = async (req: Request, res: Response, next: Nex
         path: 'permissions'
       }
     });
+    invalidateUserAccess(user._id as mongoose.Types.ObjectId);
 
     res.status(200).json({
       success: true,
@@ -173,16 +181,16 @@ export const removeRolesFromUser = async (req: Request, res: Response, next: Nex
 };
 
 /**
- * @desc    Set user roles (replace all existing roles)
- * @route   PUT /api/users/:userId/roles
+ * @desc    Set user roles (replace all existing roles), optionally for a limited period
+ * @route   PUT /api/users/:id/roles
  * @access  Private (Admin)
  */
-export const setUserRoles = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const setUserRoles = async (req: Request<UserIdParam, {}, UserRolesInput>, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { userId } = req.params;
+    const { id } = req.params;
     const { roles } = req.body;
 
-    const user = await User.findById(userId);
+    const user = await User.findById(id);
     if (!user) {
       const error = new Error('User not found') as ApiError;
       error.statusCode = 404;
@@ -195,16 +203,27 @@ export const setUserRoles = async (req: Request, res: Response, next: NextFuncti
       throw error;
     }
 
-    const validRoles = await Role.find({ _id: { $in: roles } }).distinct('_id');
-    if (validRoles.length !== roles.length) {
+    const assignments = parseRoleAssignments(roles);
+    const roleIds = [...new Set(assignments.map(assignment => assignment.role))];
+
+    const validRoles = await Role.find({ _id: { $in: roleIds } }).distinct('_id');
+    if (validRoles.length !== roleIds.length) {
       const error = new Error('One or more role IDs are invalid') as ApiError;
       error.statusCode = 400;
       throw error;
     }
 
+    // Replacing the roles both grants the new ones and takes away the current ones
+    await assertCanManageRoles(req, [...new Set([...roleIds, ...user.roles.map(role => role.toString())])]);
+
     const updatedUser = await User.findByIdAndUpdate(
-      userId,
-      { roles },
+      id,
+      {
+        roles: roleIds,
+        roleAssignments: assignments
+          .filter(assignment => assignment.startsAt || assignment.expiresAt)
+          .map(assignment => ({ ...assignment, assignedAt: new Date() }))
+      },
       { new: true, runValidators: true }
     ).populate({
       path: 'roles',
@@ -212,6 +231,7 @@ export const setUserRoles = async (req: Request, res: Response, next: NextFuncti
         path: 'permissions'
       }
     });
+    invalidateUserAccess(user._id as mongoose.Types.ObjectId);
 
     res.status(200).json({
       success: true,
@@ -430,14 +450,21 @@ export const createUser = async (
   try {
     const { name, email, password, roles } = req.body;
 
-    // Check if user already exists
-    const existingUser = await User.findOne({ email });
+    // Check if user already exists (deleted users keep their email until the trash is purged)
+    const existingUser = await User.findOne({ email }).setOptions({ withDeleted: true });
     if (existingUser) {
       const error = new Error('User already exists with this email') as ApiError;
       error.statusCode = 400;
       throw error;
     }
 
+    // Enforce the password policy
+    await assertPasswordAllowed(password, { name, email });
+
+    if (Array.isArray(roles)) {
+      await assertCanManageRoles(req, roles);
+    }
+
     // Create user
     const user = await User.create({
       name,
@@ -483,7 +510,7 @@ export const updateUser = async (
     const { name, email, isActive, isEmailVerified, roles, password, currentPassword, newPassword } = req.body;
 
     // Check if user exists - include password field for password validation if needed
-    const user = await User.findById(id).select('+password');
+    const user = await User.findById(id).select('+password +passwordHistory');
     if (!user) {
       const error = new Error('User not found') as ApiError;
       error.statusCode = 404;
@@ -506,7 +533,8 @@ export const updateUser = async (
     // Handle password updates
     if (password) {
       // Direct password update (admin operation)
-      user.password = password;
+      const policy = await assertPasswordAllowed(password, { name: user.name, email: user.email }, user);
+      user.setPassword(password, policy.historySize);
     } else if (currentPassword && newPassword) {
       // Password change with verification (user operation)
       const isMatch = await user.matchPassword(currentPassword);
@@ -515,18 +543,26 @@ export const updateUser = async (
         error.statusCode = 400;
         throw error;
       }
-      user.password = newPassword;
+      const policy = await assertPasswordAllowed(newPassword, { name: user.name, email: user.email }, user);
+      user.setPassword(newPassword, policy.historySize);
     }
     
     // Update roles if provided
     if (roles) {
       const validRoles = mongoUtils.parseIds(roles);
       if (validRoles && validRoles.length > 0) {
+        await assertCanManageRoles(req, [...validRoles, ...user.roles.map(role => role.toString())]);
         user.roles = validRoles;
       }
     }
 
     await user.save();
+    invalidateUserAccess(user._id as mongoose.Types.ObjectId);
+
+    // A deactivated user is signed out everywhere
+    if (!user.isActive) {
+      await revokeUserSessions(user._id as mongoose.Types.ObjectId, 'user_deactivated');
+    }
 
     // Populate roles and permissions
     const populatedUser = await User.findById(user._id)
@@ -572,14 +608,17 @@ export const deleteUser = async (
     }
 
     // Prevent deletion of admin users (optional)
-    const isAdmin = await user.hasRole('Admin');
+    user.$locals.access = await getUserAccess(user._id as mongoose.Types.ObjectId, user.getActiveRoleIds());
+    const isAdmin = user.hasRole('Admin');
     if (isAdmin) {
       const error = new Error('Cannot delete admin users') as ApiError;
       error.statusCode = 403;
       throw error;
     }
 
-    await user.deleteOne();
+    await user.softDelete(req.user!._id as mongoose.Types.ObjectId);
+    invalidateUserAccess(user._id as mongoose.Types.ObjectId);
+    await revokeUserSessions(user._id as mongoose.Types.ObjectId, 'user_deleted');
 
     res.status(200).json({
       success: true,
@@ -591,4 +630,27 @@ export const deleteUser = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+const userTrash = {
+  model: User,
+  resource: 'users',
+  label: 'User',
+  key: 'users',
+  select: 'name email isActive deletedAt deletedBy',
+  onRestore: (user: IUser) => invalidateUserAccess(user._id as mongoose.Types.ObjectId)
+};
+
+/**
+ * @desc    Get deleted users
+ * @route   GET /api/users/trash
+ * @access  Private (Admin)
+ */
+export const getDeletedUsers = listTrash(userTrash);
+
+/**
+ * @desc    Restore a deleted user; their sessions stay revoked, so they have to log in again
+ * @route   POST /api/users/:id/restore
+ * @access  Private (Admin)
+ */
+export const restoreUser = restoreFromTrash(userTrash);
\ No newline at end of file
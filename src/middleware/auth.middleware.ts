@@ -1,17 +1,37 @@
-import User from '@/models/user.model';
+import User, { IUser } from '@/models/user.model';
 import { ApiError } from '@/types';
+import { authenticateApiKey } from '@/utils/api-key';
+import { auditImpersonatedRequest } from '@/utils/audit';
+import { getUserAccess } from '@/utils/permission-cache';
+import { tagRequirements } from '@/utils/route-catalog';
+import { isSessionActive } from '@/utils/session';
 import { verifyAccessToken } from '@/utils/token';
 import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+// Compile (or reuse) the user's permissions so authorization needs no populate
+const attachAccess = async (req: Request, user: IUser): Promise<void> => {
+  const access = await getUserAccess(user._id as Types.ObjectId, user.getActiveRoleIds());
+  user.$locals.access = access;
+  req.access = access;
+};
 
 // Middleware to protect routes with optional authentication
-export const protect = (isRequired = true) => async (
+export const protect = (isRequired = true) => tagRequirements(async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   let token: string | undefined;  
+  let apiKeyValue: string | undefined;
 
   if (
+    req.headers.authorization &&
+    req.headers.authorization.startsWith('ApiKey ')
+  ) {
+    apiKeyValue = req.headers.authorization.split(' ')[1];
+  }
+  else if (
     req.headers.authorization &&
     req.headers.authorization.startsWith('Bearer')
   ) {
@@ -22,18 +42,48 @@ export const protect = (isRequired = true) => async (
   }
 
   // If no token and authentication is required, return error
-  if (!token && isRequired) {
+  if (!token && !apiKeyValue && isRequired) {
     const error = new Error('Not authorized to access this route') as ApiError;
     error.statusCode = 401;
     return next(error);
   }
   
   // If no token and authentication is optional, just continue
-  if (!token && !isRequired) {
+  if (!token && !apiKeyValue && !isRequired) {
     return next();
   }
 
   try {
+    // Machine clients authenticate as the key's owner, limited to the key's scopes
+    if (apiKeyValue) {
+      const apiKey = await authenticateApiKey(apiKeyValue, req.ip || null);
+
+      if (!apiKey) {
+        if (isRequired) {
+          const error = new Error('Invalid or expired API key') as ApiError;
+          error.statusCode = 401;
+          return next(error);
+        }
+        return next();
+      }
+
+      const user = await User.findById(apiKey.user as Types.ObjectId).select('-password');
+
+      if (!user || !user.isActive) {
+        if (isRequired) {
+          const error = new Error('API key owner is not active') as ApiError;
+          error.statusCode = 401;
+          return next(error);
+        }
+        return next();
+      }
+
+      await attachAccess(req, user);
+      req.user = user;
+      req.apiKey = apiKey;
+      return next();
+    }
+
     if (!token) {
       if (isRequired) {
         const error = new Error('Not authorized to access this route') as ApiError;
@@ -44,12 +94,18 @@ export const protect = (isRequired = true) => async (
     }
 
     const decoded = verifyAccessToken(token);
-    const user = await User.findById(decoded.userId).select('-password').populate({
-      path: 'roles',
-      populate: {
-        path: 'permissions'
+
+    // Access tokens of a revoked session stop working immediately
+    if (decoded.sessionId && !(await isSessionActive(decoded.sessionId))) {
+      if (isRequired) {
+        const error = new Error('Session has been revoked') as ApiError;
+        error.statusCode = 401;
+        return next(error);
       }
-    });
+      return next();
+    }
+
+    const user = await User.findById(decoded.userId).select('-password');
 
     if (!user) {
       if (isRequired) {
@@ -69,7 +125,35 @@ export const protect = (isRequired = true) => async (
       return next();
     }
 
+    await attachAccess(req, user);
+
+    // Impersonation only lasts while the admin behind it is still an active SuperAdmin
+    if (decoded.impersonatorId) {
+      const impersonator = await User.findById(decoded.impersonatorId).select('-password');
+      if (impersonator) {
+        impersonator.$locals.access = await getUserAccess(impersonator._id as Types.ObjectId, impersonator.getActiveRoleIds());
+      }
+
+      if (!impersonator || !impersonator.isActive || !impersonator.hasRole('SuperAdmin')) {
+        if (isRequired) {
+          const error = new Error('Impersonation is no longer allowed') as ApiError;
+          error.statusCode = 401;
+          return next(error);
+        }
+        return next();
+      }
+
+      req.impersonator = impersonator;
+    }
+
     req.user = user;
+    req.sessionId = decoded.sessionId;
+
+    // Every impersonated request is logged against the real admin
+    if (req.impersonator) {
+      auditImpersonatedRequest(req, res);
+    }
+
     next();
   } catch (err) {
     if (isRequired) {
@@ -79,4 +163,14 @@ export const protect = (isRequired = true) => async (
     }
     next();
   }
-};
\ No newline at end of file
+}, { authRequired: isRequired });
+
+// Middleware to keep impersonating admins away from sensitive account changes
+export const denyImpersonation = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.impersonator) {
+    const error = new Error('This action is not allowed while impersonating a user') as ApiError;
+    error.statusCode = 403;
+    return next(error);
+  }
+  next();
+};
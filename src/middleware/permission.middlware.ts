@@ -1,41 +1,66 @@
+import { IUser } from '@/models/user.model';
 import { ApiError } from '@/types';
+import { scopesAllow } from '@/utils/api-key';
+import { accessAllows, CompiledAccess } from '@/utils/permission-cache';
+import { markPermissionsUsed } from '@/utils/permission-registry';
+import { tagRequirements } from '@/utils/route-catalog';
 import { NextFunction, Request, Response } from 'express';
 
+/**
+ * Check whether a user holds a permission, either directly or through
+ * the `resource:manage` / `all:manage` permissions (SuperAdmin holds all)
+ */
+export const userHasPermission = (user: IUser, permission: string): boolean => {
+  // Use the compiled access attached by the auth middleware when available
+  const access = user.$locals.access as CompiledAccess | undefined;
+  if (access) {
+    return accessAllows(access, permission);
+  }
+
+  // SuperAdmin always has access
+  if (user.hasRole('SuperAdmin')) {
+    return true;
+  }
+
+  // Check if user has the permission directly
+  if (user.hasPermission(permission)) {
+    return true;
+  }
+
+  // If not, check if user has the 'manage' permission for the resource
+  const [resource] = permission.split(':');
+  return user.hasPermission(`${resource}:manage`) || user.hasPermission('all:manage');
+};
+
+/**
+ * Check whether the requesting user holds a permission; requests made with an API key
+ * are limited to the key's scopes, on top of the permissions of the user that owns it
+ */
+export const requestHasPermission = (req: Request<any, any, any, any>, permission: string): boolean => {
+  return (req.access ? accessAllows(req.access, permission) : userHasPermission(req.user!, permission)) &&
+    (!req.apiKey || scopesAllow(req.apiKey.scopes, permission));
+};
+
 // Middleware to authorize by permission
 export const requirePermission = (...permissions: string[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
+  // Routes are built at startup, so this records every permission the API checks
+  markPermissionsUsed(permissions);
+
+  return tagRequirements((req: Request, res: Response, next: NextFunction): void => {
     if (!req?.user) {
       const error = new Error('User not authenticated') as ApiError;
       error.statusCode = 401;
       return next(error);
     }
-    
-    // SuperAdmin always has access
-    if (req.user.hasRole('SuperAdmin')) {
-      return next();
-    }
 
-    // Check if user has any of the specified permissions directly
-    const hasRequiredPermission = permissions.some(permission => 
-      req.user!.hasPermission(permission)
-    );
-    
+    const hasRequiredPermission = permissions.some(permission => requestHasPermission(req, permission));
+
     if (hasRequiredPermission) {
       return next();
     }
-    
-    // If not, check if user has the 'manage' permission for the resources
-    const hasManagePermission = permissions.some(permission => {
-      const [resource] = permission.split(':');
-      return req.user!.hasPermission(`${resource}:manage`) || req.user!.hasPermission('all:manage');
-    });
-    
-    if (hasManagePermission) {
-      return next();
-    }
 
     const error = new Error('You do not have permission to perform this action') as ApiError;
     error.statusCode = 403;
     return next(error);
-  };
-};
\ No newline at end of file
+  }, { permissions });
+};
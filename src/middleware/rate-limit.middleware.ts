@@ -0,0 +1,111 @@
+import { ApiError } from '@/types';
+import { MongoRateLimitStore } from '@/utils/rate-limit-store';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+
+// Throttle per client IP and submitted email, so one attacker cannot lock out
+// every account from one address and one account cannot be hammered from many
+const ipAndEmailKey = (req: Request): string => {
+  const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+  return `${req.ip}:${email}`;
+};
+
+// Public forms take any email address, so a per-address limit alone is dodged by varying it
+const ipKey = (req: Request): string => req.ip || '';
+
+const createLimiter = (
+  name: string,
+  windowMs: number,
+  limit: number,
+  message: string,
+  keyGenerator: (req: Request) => string = ipAndEmailKey
+) => {
+  return rateLimit({
+    windowMs,
+    limit,
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    keyGenerator,
+    store: new MongoRateLimitStore(name),
+    handler: (req: Request, res: Response, next: NextFunction) => {
+      const error = new Error(message) as ApiError;
+      error.statusCode = 429;
+      next(error);
+    }
+  });
+};
+
+// 10 login attempts per 15 minutes
+export const loginLimiter = createLimiter(
+  'login',
+  15 * 60 * 1000,
+  10,
+  'Too many login attempts, please try again later'
+);
+
+// 5 password reset requests per hour
+export const passwordResetLimiter = createLimiter(
+  'forgot-password',
+  60 * 60 * 1000,
+  5,
+  'Too many password reset requests, please try again later'
+);
+
+// 5 verification email requests per hour
+export const verificationEmailLimiter = createLimiter(
+  'resend-verification',
+  60 * 60 * 1000,
+  5,
+  'Too many verification email requests, please try again later'
+);
+
+// 5 magic link requests per 15 minutes
+export const magicLinkLimiter = createLimiter(
+  'magic-link',
+  15 * 60 * 1000,
+  5,
+  'Too many sign-in link requests, please try again later'
+);
+
+// 5 contact form submissions per 15 minutes per email, 20 per hour per IP
+export const inquiryLimiter: RequestHandler[] = [
+  createLimiter(
+    'inquiry',
+    15 * 60 * 1000,
+    5,
+    'Too many submissions, please try again later'
+  ),
+  createLimiter(
+    'inquiry-ip',
+    60 * 60 * 1000,
+    20,
+    'Too many submissions, please try again later',
+    ipKey
+  )
+];
+
+// 5 job applications per 15 minutes per email, 20 per hour per IP
+export const applicationLimiter: RequestHandler[] = [
+  createLimiter(
+    'application',
+    15 * 60 * 1000,
+    5,
+    'Too many submissions, please try again later'
+  ),
+  createLimiter(
+    'application-ip',
+    60 * 60 * 1000,
+    20,
+    'Too many submissions, please try again later',
+    ipKey
+  )
+];
+
+// 10 resume uploads per hour per IP (the applicant's email isn't known yet)
+export const resumeUploadLimiter = createLimiter(
+  'resume-upload',
+  60 * 60 * 1000,
+  10,
+  'Too many uploads, please try again later',
+  ipKey
+);
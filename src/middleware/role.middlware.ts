@@ -1,15 +1,23 @@
 import { ApiError } from '@/types';
+import { tagRequirements } from '@/utils/route-catalog';
 import { NextFunction, Response,Request } from 'express';
 
 // Middleware to authorize by role
 export const authorize = (...roles: string[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
+  return tagRequirements((req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
       const error = new Error('User not authenticated') as ApiError;
       error.statusCode = 401;
       return next(error);
     }
 
+    // Role checks have no scope an API key could be limited to, so they need an interactive login
+    if (req.apiKey) {
+      const error = new Error('This route cannot be used with an API key') as ApiError;
+      error.statusCode = 403;
+      return next(error);
+    }
+
     if (req.user.hasRole('SuperAdmin')) {
       return next();
     }
@@ -23,5 +31,5 @@ export const authorize = (...roles: string[]) => {
     }
 
     next();
-  };
+  }, { roles });
 };
\ No newline at end of file
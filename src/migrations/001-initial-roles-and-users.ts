@@ -0,0 +1,370 @@
+import { Permission, Role, Settings, User } from '@/models';
+import { MigrationDefinition } from '@/utils/migrator';
+import logger from '@/utils/logger';
+import { Types } from 'mongoose';
+
+// Resources in the system
+const resources = [
+  'blogs',
+  'careers',
+  'applications',
+  'users',
+  'contacts',
+  'settings',
+  'roles',
+  'permissions',
+  'inquiries',
+  'dashboard',
+  'storage'
+];
+
+// Actions that can be performed
+const actions = [
+  'create',
+  'read',
+  'update',
+  'delete',
+  'manage', // Special permission that includes all CRUD
+  'approve',
+  'publish',
+  'assign', // For assigning inquiries to users
+  'view' // View action specifically for the dashboard
+];
+
+// Action/resource combinations that don't make sense
+const isExcluded = (resource: string, action: string): boolean => {
+  return (
+    (resource === 'settings' && ['create', 'delete'].includes(action)) ||
+    (resource === 'permissions' && ['create', 'delete'].includes(action)) ||
+    (resource === 'applications' && action === 'publish') ||
+    (resource === 'contacts' && ['publish', 'approve'].includes(action)) ||
+    (resource === 'users' && ['publish', 'approve'].includes(action)) ||
+    (resource === 'roles' && ['publish', 'approve'].includes(action)) ||
+    (resource === 'permissions' && ['publish', 'approve'].includes(action)) ||
+    (resource === 'settings' && ['publish', 'approve'].includes(action)) ||
+    // Dashboard specific restrictions
+    (resource === 'dashboard' && ['create', 'update', 'delete', 'publish', 'approve', 'assign'].includes(action)) ||
+    // Files are only uploaded, read and deleted
+    (resource === 'storage' && ['update', 'publish', 'approve', 'assign', 'view'].includes(action))
+  );
+};
+
+interface SeedRole {
+  name: string;
+  description: string;
+  // Permission codes, or every permission for SuperAdmin
+  permissions: string[] | 'all';
+  parentRoles?: string[];
+  isDefault?: boolean;
+  requireTwoFactor?: boolean;
+}
+
+const roles: SeedRole[] = [
+  {
+    name: 'SuperAdmin',
+    description: 'Has complete access to all resources and actions',
+    permissions: 'all',
+    requireTwoFactor: true
+  },
+  {
+    // Everything except critical system operations
+    name: 'Admin',
+    description: 'Has access to most resources but not system-critical operations',
+    permissions: [
+      // User management
+      'users:read',
+      'users:create',
+      'users:update',
+      'users:delete',
+      'users:manage',
+
+      // Content management
+      'blogs:read',
+      'blogs:create',
+      'blogs:update',
+      'blogs:delete',
+      'blogs:publish',
+      'blogs:manage',
+      'careers:read',
+      'careers:create',
+      'careers:update',
+      'careers:delete',
+      'careers:publish',
+      'careers:manage',
+      'applications:read',
+      'applications:update',
+      'applications:delete',
+      'applications:approve',
+      'applications:manage',
+
+      // Inquiries
+      'inquiries:read',
+      'inquiries:create',
+      'inquiries:update',
+      'inquiries:delete',
+      'inquiries:assign',
+      'inquiries:manage',
+
+      // Settings
+      'settings:read',
+      'settings:update',
+      'settings:manage',
+
+      // Limited role/permission management
+      'roles:read',
+      'permissions:read',
+
+      // Dashboard access
+      'dashboard:view',
+      'dashboard:read',
+      'dashboard:manage',
+
+      // File storage
+      'storage:manage'
+    ],
+    requireTwoFactor: true
+  },
+  {
+    // On top of the permissions inherited from Editor
+    name: 'ContentManager',
+    description: 'Manages content like blogs and career postings',
+    permissions: [
+      // Content management
+      'blogs:create',
+      'blogs:delete',
+      'blogs:publish',
+      'careers:create',
+      'careers:delete',
+      'careers:publish',
+
+      // Limited access
+      'users:read',
+
+      // Dashboard access (limited)
+      'dashboard:read'
+    ],
+    parentRoles: ['Editor']
+  },
+  {
+    name: 'HRManager',
+    description: 'Manages job applications and career section',
+    permissions: [
+      // Career and application management
+      'careers:read',
+      'careers:create',
+      'careers:update',
+      'careers:delete',
+      'careers:publish',
+      'applications:read',
+      'applications:create',
+      'applications:update',
+      'applications:delete',
+      'applications:approve',
+      'applications:manage',
+
+      // Limited access
+      'users:read',
+      'inquiries:read',
+
+      // Dashboard access (limited)
+      'dashboard:view',
+      'dashboard:read'
+    ]
+  },
+  {
+    name: 'BusinessDeveloper',
+    description: 'Manages inquiries and business development',
+    permissions: [
+      // Inquiry management
+      'inquiries:read',
+      'inquiries:create',
+      'inquiries:update',
+      'inquiries:delete',
+      'inquiries:assign',
+      'inquiries:manage',
+
+      // Settings access
+      'settings:read',
+      'settings:update',
+
+      // Limited access
+      'users:read',
+      'blogs:read',
+      'careers:read',
+
+      // Dashboard access (limited)
+      'dashboard:view',
+      'dashboard:read'
+    ]
+  },
+  {
+    name: 'Editor',
+    description: 'Can edit content but not publish or delete',
+    permissions: [
+      // Content editing
+      'blogs:read',
+      'blogs:update',
+      'careers:read',
+      'careers:update',
+
+      // Limited access
+      'applications:read',
+      'inquiries:read',
+
+      // Dashboard access (view only)
+      'dashboard:view',
+
+      // Uploading images for content
+      'storage:read',
+      'storage:create'
+    ]
+  },
+  {
+    name: 'Viewer',
+    description: 'Can only view content, no edit permissions',
+    permissions: [
+      // Read-only access to everything
+      'blogs:read',
+      'careers:read',
+      'applications:read',
+      'users:read',
+      'contacts:read',
+      'settings:read',
+      'roles:read',
+      'permissions:read',
+      'inquiries:read',
+
+      // Dashboard access (view only)
+      'dashboard:view'
+    ]
+  },
+  {
+    name: 'User',
+    description: 'Regular authenticated user with minimal permissions',
+    permissions: ['blogs:read', 'careers:read'],
+    isDefault: true
+  }
+];
+
+// Sample users for each role
+const users = [
+  { name: 'Super Admin', email: 'admin@example.com', password: 'password123', role: 'SuperAdmin' },
+  { name: 'Admin User', email: 'admin-user@example.com', password: 'password123', role: 'Admin' },
+  { name: 'Content Manager', email: 'content@example.com', password: 'password123', role: 'ContentManager' },
+  { name: 'HR Manager', email: 'hr@example.com', password: 'password123', role: 'HRManager' },
+  { name: 'Business Developer', email: 'bizdev@example.com', password: 'password123', role: 'BusinessDeveloper' },
+  { name: 'Editor', email: 'editor@example.com', password: 'password123', role: 'Editor' },
+  { name: 'Viewer', email: 'viewer@example.com', password: 'password123', role: 'Viewer' },
+  { name: 'Regular User', email: 'user@example.com', password: 'password123', role: 'User' }
+];
+
+// Default email settings
+const defaultEmailSettings = {
+  notificationEmails: ['admin@example.com'],
+  fromEmail: 'noreply@youragency.com',
+  fromName: 'Your Agency Name',
+  smtpHost: process.env.SMTP_HOST || 'smtp.example.com',
+  smtpPort: Number(process.env.SMTP_PORT) || 587,
+  smtpUser: process.env.SMTP_USER || 'smtp_username',
+  smtpPassword: process.env.SMTP_PASSWORD || 'smtp_password',
+  smtpSecure: process.env.SMTP_SECURE === 'true' || false
+};
+
+const permissionCodes = (): { resource: string; name: string }[] => [
+  ...resources.flatMap(resource => actions
+    .filter(action => !isExcluded(resource, action))
+    .map(action => ({ resource, name: action }))),
+  // Special 'all' resource permission for SuperAdmin
+  { resource: 'all', name: 'manage' }
+];
+
+const up = async (): Promise<void> => {
+  // Permissions, skipping the ones that already exist
+  const existingPermissions = await Permission.find({}, 'resource name').lean();
+  const existingCodes = new Set(existingPermissions.map(permission => `${permission.resource}:${permission.name}`));
+  const missingPermissions = permissionCodes().filter(({ resource, name }) => !existingCodes.has(`${resource}:${name}`));
+
+  if (missingPermissions.length > 0) {
+    await Permission.insertMany(missingPermissions.map(({ resource, name }) => ({
+      resource,
+      name,
+      description: resource === 'all'
+        ? 'Allows complete access to all resources'
+        : `Allows ${name} operations on ${resource}`
+    })));
+  }
+  logger.info(`${missingPermissions.length} permissions created`);
+
+  const permissions = await Permission.find({}, 'resource name').lean();
+  const permissionMap = new Map(permissions.map(permission => [`${permission.resource}:${permission.name}`, permission._id]));
+
+  // Roles, skipping the ones that already exist (parent roles are linked once every role has an ID)
+  const existingRoles = new Set(await Role.find().distinct('name'));
+  const missingRoles = roles.filter(role => !existingRoles.has(role.name));
+
+  if (missingRoles.some(role => role.isDefault)) {
+    await Role.updateMany({ isDefault: true }, { isDefault: false });
+  }
+
+  await Role.create(missingRoles.map(role => ({
+    name: role.name,
+    description: role.description,
+    permissions: role.permissions === 'all'
+      ? [...permissionMap.values()]
+      : role.permissions.map(code => permissionMap.get(code)).filter(Boolean),
+    isDefault: role.isDefault || false,
+    requireTwoFactor: role.requireTwoFactor || false
+  })));
+  logger.info(`${missingRoles.length} roles created`);
+
+  const roleMap = new Map<string, Types.ObjectId>(
+    (await Role.find({}, 'name').lean()).map(role => [role.name, role._id as Types.ObjectId])
+  );
+
+  for (const role of missingRoles.filter(role => role.parentRoles)) {
+    await Role.updateOne(
+      { name: role.name },
+      { parentRoles: role.parentRoles!.map(name => roleMap.get(name)).filter(Boolean) }
+    );
+  }
+
+  // Users for each role, skipping the emails that are already taken
+  const existingEmails = new Set(await User.find({ email: { $in: users.map(user => user.email) } }).setOptions({ withDeleted: true }).distinct('email'));
+  const missingUsers = users.filter(user => !existingEmails.has(user.email));
+
+  // Created one by one so the password hashing hook runs
+  for (const user of missingUsers) {
+    await User.create({
+      name: user.name,
+      email: user.email,
+      password: user.password,
+      roles: [roleMap.get(user.role)],
+      isActive: true,
+      isEmailVerified: true
+    });
+  }
+  logger.info(`${missingUsers.length} users created`);
+
+  if ((await Settings.countDocuments()) === 0) {
+    await Settings.create({ emailSettings: defaultEmailSettings });
+    logger.info('Created default email settings');
+  }
+};
+
+// The settings document is kept, it may have been edited since it was created
+const down = async (): Promise<void> => {
+  await User.deleteMany({ email: { $in: users.map(user => user.email) } }).setOptions({ withDeleted: true });
+  await Role.deleteMany({ name: { $in: roles.map(role => role.name) } });
+  await Permission.deleteMany({
+    $or: permissionCodes().map(({ resource, name }) => ({ resource, name }))
+  });
+};
+
+const migration: MigrationDefinition = {
+  version: '001',
+  name: 'initial-roles-and-users',
+  up,
+  down
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import { User } from '@/models';
+import { MigrationDefinition } from '@/utils/migrator';
+import logger from '@/utils/logger';
+
+// Existing users get their author slug from the save hook of the user model
+const up = async (): Promise<void> => {
+  const users = await User.find({ 'profile.slug': { $exists: false } });
+
+  for (const user of users) {
+    await user.save();
+  }
+  logger.info(`Generated author slugs for ${users.length} users`);
+};
+
+const down = async (): Promise<void> => {
+  await User.updateMany({}, { $unset: { 'profile.slug': '' } });
+};
+
+const migration: MigrationDefinition = {
+  version: '002',
+  name: 'author-slugs',
+  up,
+  down
+};
+
+export default migration;
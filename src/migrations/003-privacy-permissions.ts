@@ -0,0 +1,37 @@
+import { Permission, Role } from '@/models';
+import { MigrationDefinition } from '@/utils/migrator';
+import { describePermission } from '@/utils/permission-registry';
+import logger from '@/utils/logger';
+
+const actions = ['read', 'manage'];
+
+// Admins handle data subject requests; SuperAdmin already has every permission
+const up = async (): Promise<void> => {
+  const permissionIds = [];
+
+  for (const name of actions) {
+    const permission = await Permission.findOneAndUpdate(
+      { resource: 'privacy', name },
+      { $setOnInsert: { resource: 'privacy', name, description: describePermission('privacy', name) } },
+      { upsert: true, new: true }
+    );
+    permissionIds.push(permission._id);
+  }
+
+  const result = await Role.updateOne({ name: 'Admin' }, { $addToSet: { permissions: { $each: permissionIds } } });
+  logger.info(result.matchedCount > 0 ? 'Granted privacy permissions to Admin' : 'No Admin role to grant privacy permissions to');
+};
+
+const down = async (): Promise<void> => {
+  const permissionIds = await Permission.find({ resource: 'privacy', name: { $in: actions } }).distinct('_id');
+  await Role.updateOne({ name: 'Admin' }, { $pull: { permissions: { $in: permissionIds } } });
+};
+
+const migration: MigrationDefinition = {
+  version: '003',
+  name: 'privacy-permissions',
+  up,
+  down
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import { Permission, Role } from '@/models';
+import { MigrationDefinition } from '@/utils/migrator';
+import { describePermission } from '@/utils/permission-registry';
+import logger from '@/utils/logger';
+
+// Content managers review blogs as well as publishing them; Admin gets it through blogs:manage
+const up = async (): Promise<void> => {
+  const permission = await Permission.findOneAndUpdate(
+    { resource: 'blogs', name: 'approve' },
+    { $setOnInsert: { resource: 'blogs', name: 'approve', description: describePermission('blogs', 'approve') } },
+    { upsert: true, new: true }
+  );
+
+  const result = await Role.updateOne({ name: 'ContentManager' }, { $addToSet: { permissions: permission._id } });
+  logger.info(result.matchedCount > 0 ? 'Granted blogs:approve to ContentManager' : 'No ContentManager role to grant blogs:approve to');
+};
+
+// The permission itself comes from the initial migration, so only ContentManager's grant is undone
+const down = async (): Promise<void> => {
+  const permission = await Permission.findOne({ resource: 'blogs', name: 'approve' });
+  if (!permission) return;
+
+  await Role.updateOne({ name: 'ContentManager' }, { $pull: { permissions: permission._id } });
+};
+
+const migration: MigrationDefinition = {
+  version: '004',
+  name: 'blog-approve-permission',
+  up,
+  down
+};
+
+export default migration;
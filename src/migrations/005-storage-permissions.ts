@@ -0,0 +1,48 @@
+import { Permission, Role } from '@/models';
+import { MigrationDefinition } from '@/utils/migrator';
+import { describePermission } from '@/utils/permission-registry';
+import logger from '@/utils/logger';
+
+// Storage routes used to be open to any signed-in user; roles created before they
+// required storage permissions keep the access they had
+const grants: Record<string, string[]> = {
+  Admin: ['manage'],
+  Editor: ['read', 'create'],
+  ContentManager: ['read', 'create']
+};
+
+const findPermissionIds = async (actions: string[]) => {
+  return Permission.find({ resource: 'storage', name: { $in: actions } }).distinct('_id');
+};
+
+const up = async (): Promise<void> => {
+  for (const name of new Set(Object.values(grants).flat())) {
+    await Permission.findOneAndUpdate(
+      { resource: 'storage', name },
+      { $setOnInsert: { resource: 'storage', name, description: describePermission('storage', name) } },
+      { upsert: true }
+    );
+  }
+
+  for (const [roleName, actions] of Object.entries(grants)) {
+    const permissionIds = await findPermissionIds(actions);
+    const result = await Role.updateOne({ name: roleName }, { $addToSet: { permissions: { $each: permissionIds } } });
+    logger.info(result.matchedCount > 0 ? `Granted storage permissions to ${roleName}` : `No ${roleName} role to grant storage permissions to`);
+  }
+};
+
+// Admin and Editor get these same permissions from the initial migration on new
+// installs, so only the ContentManager grant is undone; the permissions stay in place
+const down = async (): Promise<void> => {
+  const permissionIds = await findPermissionIds(grants.ContentManager);
+  await Role.updateOne({ name: 'ContentManager' }, { $pull: { permissions: { $in: permissionIds } } });
+};
+
+const migration: MigrationDefinition = {
+  version: '005',
+  name: 'storage-permissions',
+  up,
+  down
+};
+
+export default migration;
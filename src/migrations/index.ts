@@ -0,0 +1,17 @@
+import { MigrationDefinition } from '@/utils/migrator';
+import initialRolesAndUsers from './001-initial-roles-and-users';
+import authorSlugs from './002-author-slugs';
+import privacyPermissions from './003-privacy-permissions';
+import blogApprovePermission from './004-blog-approve-permission';
+import storagePermissions from './005-storage-permissions';
+
+// Every migration, applied in version order. Add new migrations here.
+const migrations: MigrationDefinition[] = [
+  initialRolesAndUsers,
+  authorSlugs,
+  privacyPermissions,
+  blogApprovePermission,
+  storagePermissions
+];
+
+export default migrations;
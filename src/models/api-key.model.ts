@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IUser } from './user.model';
+
+// A personal API key for machine clients. Only a hash of the key is stored;
+// the plain key is shown once when it is created.
+export interface IApiKey extends Document {
+  user: Types.ObjectId | IUser;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema: Schema = new Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+    // First characters of the key, shown in listings so keys can be told apart
+    prefix: {
+      type: String,
+      required: true
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false
+    },
+    scopes: {
+      type: [String],
+      default: []
+    },
+    expiresAt: {
+      type: Date,
+      default: null
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null
+    },
+    lastUsedIp: {
+      type: String,
+      default: null
+    },
+    revokedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export default mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
@@ -1,6 +1,7 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { ISoftDelete, softDeletePlugin } from './plugins/soft-delete';
 
-export interface IApplication extends Document {
+export interface IApplication extends Document, ISoftDelete {
   career: mongoose.Types.ObjectId;
   name: string;
   email: string;
@@ -66,4 +67,6 @@ ApplicationSchema.post('save', async function() {
   await Career.findByIdAndUpdate(this.career, { $inc: { applicationsCount: 1 } });
 });
 
+ApplicationSchema.plugin(softDeletePlugin);
+
 export default mongoose.model<IApplication>('Application', ApplicationSchema);
\ No newline at end of file
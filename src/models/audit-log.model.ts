@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IUser } from './user.model';
+
+// Append-only record of security relevant actions. `actor` is always the
+// real person behind the action, `onBehalfOf` the user they were acting as.
+export interface IAuditLog extends Document {
+  actor: Types.ObjectId | IUser | null;
+  onBehalfOf: Types.ObjectId | IUser | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  method: string | null;
+  path: string | null;
+  statusCode: number | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Record<string, any>;
+  createdAt: Date;
+}
+
+const AuditLogSchema: Schema = new Schema(
+  {
+    actor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+      index: true
+    },
+    onBehalfOf: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+      index: true
+    },
+    action: {
+      type: String,
+      required: true,
+      index: true
+    },
+    targetType: {
+      type: String,
+      default: null
+    },
+    targetId: {
+      type: String,
+      default: null
+    },
+    method: {
+      type: String,
+      default: null
+    },
+    path: {
+      type: String,
+      default: null
+    },
+    statusCode: {
+      type: Number,
+      default: null
+    },
+    ipAddress: {
+      type: String,
+      default: null
+    },
+    userAgent: {
+      type: String,
+      default: null
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {}
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+AuditLogSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
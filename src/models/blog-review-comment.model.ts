@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IBlog } from './blog.model';
+import { IUser } from './user.model';
+
+// A comment in the editorial review of a blog. Comments left while changing the
+// review status record that transition as well.
+export interface IBlogReviewComment extends Document {
+  blog: Types.ObjectId | IBlog;
+  author: Types.ObjectId | IUser;
+  body: string;
+  transition: {
+    from: IBlog['status'];
+    to: IBlog['status'];
+  } | null;
+  createdAt: Date;
+}
+
+const BlogReviewCommentSchema: Schema = new Schema(
+  {
+    blog: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Blog',
+      required: true,
+      index: true
+    },
+    author: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    body: {
+      type: String,
+      required: [true, 'Comment is required'],
+      trim: true,
+      maxlength: [2000, 'Comment cannot be more than 2000 characters']
+    },
+    transition: {
+      type: new Schema({ from: String, to: String }, { _id: false }),
+      default: null
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+export default mongoose.model<IBlogReviewComment>('BlogReviewComment', BlogReviewCommentSchema);
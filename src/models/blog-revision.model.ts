@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IBlog } from './blog.model';
+import { IUser } from './user.model';
+
+// Snapshot of a blog's editable text after a change. Numbers increase per blog
+// and are never reused, so they stay stable after old revisions are pruned.
+export interface IBlogRevision extends Document {
+  blog: Types.ObjectId | IBlog;
+  number: number;
+  title: string;
+  content: string;
+  contentType: IBlog['contentType'];
+  excerpt: string;
+  seo: IBlog['seo'];
+  changedFields: string[];
+  changeNote: string | null;
+  // Revision this one was restored from, if any
+  restoredFrom: number | null;
+  author: Types.ObjectId | IUser | null;
+  createdAt: Date;
+}
+
+const BlogRevisionSchema: Schema = new Schema(
+  {
+    blog: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Blog',
+      required: true
+    },
+    number: {
+      type: Number,
+      required: true
+    },
+    title: {
+      type: String,
+      required: true
+    },
+    content: {
+      type: String,
+      required: true
+    },
+    contentType: {
+      type: String,
+      enum: ['markdown', 'html', 'json'],
+      default: 'markdown'
+    },
+    excerpt: {
+      type: String,
+      default: ''
+    },
+    seo: {
+      metaTitle: String,
+      metaDescription: String,
+      keywords: [String],
+      ogImage: String
+    },
+    changedFields: {
+      type: [String],
+      default: []
+    },
+    changeNote: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Change note cannot be more than 500 characters'],
+      default: null
+    },
+    restoredFrom: {
+      type: Number,
+      default: null
+    },
+    author: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+BlogRevisionSchema.index({ blog: 1, number: -1 }, { unique: true });
+
+export default mongoose.model<IBlogRevision>('BlogRevision', BlogRevisionSchema);
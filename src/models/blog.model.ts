@@ -1,9 +1,10 @@
 import { BlogCategoryEnum, BlogStatusEnum } from '@/schemas/blog.schema';
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ISoftDelete, softDeletePlugin } from './plugins/soft-delete';
 import z from 'zod';
 import { IUser } from './user.model';
 
-export interface IBlog extends Document {
+export interface IBlog extends Document, ISoftDelete {
   title: string;
   slug?: string;
   content: string; // Rich text content
@@ -26,6 +27,11 @@ export interface IBlog extends Document {
     ogImage: string;
   };
   relatedPosts: Types.ObjectId[];
+  // Editorial review
+  reviewers: Types.ObjectId[] | IUser[];
+  submittedAt: Date | null;
+  approvedBy: Types.ObjectId | IUser | null;
+  approvedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -115,7 +121,24 @@ const BlogSchema: Schema = new Schema(
     relatedPosts: [{
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Blog'
-    }]
+    }],
+    reviewers: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    submittedAt: {
+      type: Date,
+      default: null
+    },
+    approvedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    approvedAt: {
+      type: Date,
+      default: null
+    }
   },
   {
     timestamps: true
@@ -146,5 +169,6 @@ BlogSchema.pre<IBlog>('save', function(next) {
   next();
 });
 
+BlogSchema.plugin(softDeletePlugin);
 
 export default mongoose.model<IBlog>('Blog', BlogSchema);
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { DepartmentEnum, EmploymentTypeEnum, StatusEnum } from "@/schemas/career.schema";
 import mongoose, { Document, Schema } from 'mongoose';
+import { ISoftDelete, softDeletePlugin } from './plugins/soft-delete';
 import z from 'zod';
 
-export interface ICareer extends Document {
+export interface ICareer extends Document, ISoftDelete {
   title: string;
   department: z.infer<typeof DepartmentEnum>;
   location: string;
@@ -160,4 +161,6 @@ CareerSchema.pre<ICareer>('save', function (next) {
   next();
 });
 
+CareerSchema.plugin(softDeletePlugin);
+
 export default mongoose.model<ICareer>('Career', CareerSchema);
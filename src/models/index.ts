@@ -5,7 +5,17 @@ import Settings from './settings.model';
 import Inquiry from "./inquiry.model"
 import User from './user.model';
 import Blog from './blog.model';
+import BlogRevision from './blog-revision.model';
+import BlogReviewComment from './blog-review-comment.model';
 import Application from './application.model';
 import Career from './career.model';
+import Session from './session.model';
+import RateLimit from './rate-limit.model';
+import ApiKey from './api-key.model';
+import OidcState from './oidc-state.model';
+import AuditLog from './audit-log.model';
+import Migration from './migration.model';
+import Invitation from './invitation.model';
+import PrivacyRequest from './privacy-request.model';
 
-export { Permission, Role, User ,Career,Application,Blog,Inquiry,Settings};
\ No newline at end of file
+export { Permission, Role, User ,Career,Application,Blog,Inquiry,Settings,Session,RateLimit,ApiKey,OidcState,AuditLog,Migration,Invitation,PrivacyRequest,BlogRevision,BlogReviewComment};
\ No newline at end of file
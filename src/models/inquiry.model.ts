@@ -1,10 +1,11 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ISoftDelete, softDeletePlugin } from './plugins/soft-delete';
 import { IUser } from './user.model';
 import z from 'zod';
 import { InquiryStatusEnum } from '@/schemas/inquiry.schema';
 
 
-export interface IInquiry extends Document {
+export interface IInquiry extends Document, ISoftDelete {
   name: string;
   email: string;
   phone?: string;
@@ -62,4 +63,6 @@ const InquirySchema: Schema = new Schema(
   }
 );
 
+InquirySchema.plugin(softDeletePlugin);
+
 export default mongoose.model<IInquiry>('Inquiry', InquirySchema);
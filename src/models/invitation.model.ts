@@ -0,0 +1,123 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import crypto from 'crypto';
+import { IRole } from './role.model';
+import { IUser } from './user.model';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+// An invitation to create an account. Only the hash of the emailed token is stored;
+// a pending invitation past `expiresAt` can no longer be accepted but can be resent.
+export interface IInvitation extends Document {
+  email: string;
+  name: string;
+  roles: Types.ObjectId[] | IRole[];
+  tokenHash: string;
+  status: InvitationStatus;
+  expiresAt: Date;
+  invitedBy: Types.ObjectId | IUser;
+  lastSentAt: Date;
+  sendCount: number;
+  acceptedAt: Date | null;
+  acceptedUser: Types.ObjectId | IUser | null;
+  revokedAt: Date | null;
+  revokedBy: Types.ObjectId | IUser | null;
+  isExpired: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  generateToken(validForMs: number): string;
+}
+
+const InvitationSchema: Schema = new Schema(
+  {
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+      index: true
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true
+    },
+    // Roles given to the user on accept (the default role when empty)
+    roles: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Role'
+      }
+    ],
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false,
+      index: true
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'revoked'],
+      default: 'pending',
+      index: true
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    invitedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    lastSentAt: {
+      type: Date,
+      default: Date.now
+    },
+    sendCount: {
+      type: Number,
+      default: 1
+    },
+    acceptedAt: {
+      type: Date,
+      default: null
+    },
+    acceptedUser: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    revokedAt: {
+      type: Date,
+      default: null
+    },
+    revokedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+  }
+);
+
+InvitationSchema.virtual('isExpired').get(function() {
+  return this.status === 'pending' && (this.expiresAt as Date).getTime() <= Date.now();
+});
+
+// Generate a new invite token, replacing any previous one, and restart the expiry period
+InvitationSchema.methods.generateToken = function(validForMs: number): string {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  this.tokenHash = crypto
+    .createHash('sha256')
+    .update(token)
+    .digest('hex');
+  this.expiresAt = new Date(Date.now() + validForMs);
+
+  return token;
+};
+
+export default mongoose.model<IInvitation>('Invitation', InvitationSchema);
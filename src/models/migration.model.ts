@@ -0,0 +1,26 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A migration that has been applied to this database
+export interface IMigration extends Document {
+  version: string;
+  name: string;
+  appliedAt: Date;
+}
+
+const MigrationSchema: Schema = new Schema({
+  version: {
+    type: String,
+    required: [true, 'Migration version is required'],
+    unique: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Migration name is required']
+  },
+  appliedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+export default mongoose.model<IMigration>('Migration', MigrationSchema);
@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IUser } from './user.model';
+
+// Short lived state of an OIDC login: created when the user is sent to the
+// identity provider, and turned into a one-time login ticket on callback.
+export interface IOidcState extends Document {
+  state: string;
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  user: Types.ObjectId | IUser | null;
+  ticketHash: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OidcStateSchema: Schema = new Schema(
+  {
+    state: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    provider: {
+      type: String,
+      required: true
+    },
+    codeVerifier: {
+      type: String,
+      required: true
+    },
+    nonce: {
+      type: String,
+      required: true
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    ticketHash: {
+      type: String,
+      default: null,
+      index: true
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Let MongoDB clean up abandoned logins
+OidcStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IOidcState>('OidcState', OidcStateSchema);
@@ -13,13 +13,13 @@ const PermissionSchema: Schema = new Schema(
     name: {
       type: String,
       required: [true, 'Permission name is required'],
-      enum: ['create', 'read', 'update', 'delete', 'manage', 'approve', 'publish', 'assign','view'],
+      match: [/^[a-z]+$/, 'Permission name may only contain lowercase letters'],
       trim: true
     },
     resource: {
       type: String,
       required: [true, 'Resource name is required'],
-      enum: ['blogs', 'careers', 'applications', 'users', 'contacts', 'settings', 'roles', 'permissions', 'all', 'inquiries','dashboard'],
+      match: [/^[a-z]+$/, 'Resource name may only contain lowercase letters'],
       trim: true
     },
     description: {
@@ -0,0 +1,87 @@
+import { Aggregate, Model, MongooseQueryMiddleware, Query, Schema, Types } from 'mongoose';
+
+export interface ISoftDelete {
+  deletedAt: Date | null;
+  deletedBy: Types.ObjectId | null;
+
+  // Methods
+  softDelete(userId?: Types.ObjectId | string | null): Promise<void>;
+  restore(): Promise<void>;
+}
+
+const QUERY_METHODS: MongooseQueryMiddleware[] = [
+  'countDocuments',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateOne',
+  'updateMany',
+  'deleteOne',
+  'deleteMany'
+];
+
+// Stages MongoDB only accepts at the start of a pipeline
+const LEADING_STAGES = ['$geoNear', '$search', '$searchMeta', '$vectorSearch'];
+
+/**
+ * Mark documents as deleted instead of removing them.
+ *
+ * Queries and aggregations skip deleted documents unless their filter (or a `$match` stage)
+ * mentions `deletedAt`, or they are run with the `withDeleted` option.
+ */
+export const softDeletePlugin = (schema: Schema): void => {
+  schema.add({
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    }
+  });
+
+  schema.pre(QUERY_METHODS, function(this: Query<unknown, unknown>) {
+    if (this.getOptions().withDeleted) return;
+    if ('deletedAt' in this.getFilter()) return;
+
+    this.where({ deletedAt: null });
+  });
+
+  schema.pre('aggregate', function(this: Aggregate<unknown>) {
+    if (this.options.withDeleted) return;
+
+    const pipeline = this.pipeline() as Record<string, any>[];
+    if (pipeline.some(stage => stage.$match && 'deletedAt' in stage.$match)) return;
+
+    const index = pipeline.length > 0 && LEADING_STAGES.some(name => name in pipeline[0]) ? 1 : 0;
+    pipeline.splice(index, 0, { $match: { deletedAt: null } });
+  });
+
+  // Written with an update rather than save() so the save hooks (and validation) don't run again
+  schema.methods.softDelete = async function(userId: Types.ObjectId | string | null = null): Promise<void> {
+    this.deletedAt = new Date();
+    this.deletedBy = userId;
+    await (this.constructor as Model<ISoftDelete>).updateOne(
+      { _id: this._id },
+      { deletedAt: this.deletedAt, deletedBy: this.deletedBy },
+      { timestamps: false }
+    ).setOptions({ withDeleted: true });
+  };
+
+  schema.methods.restore = async function(): Promise<void> {
+    this.deletedAt = null;
+    this.deletedBy = null;
+    await (this.constructor as Model<ISoftDelete>).updateOne(
+      { _id: this._id },
+      { deletedAt: null, deletedBy: null },
+      { timestamps: false }
+    ).setOptions({ withDeleted: true });
+  };
+};
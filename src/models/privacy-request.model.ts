@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IUser } from './user.model';
+
+export interface IPrivacyRecordCounts {
+  users: number;
+  inquiries: number;
+  applications: number;
+  invitations: number;
+  files: number;
+}
+
+// Compliance record of a data subject request that was carried out. The subject is
+// identified by a hash of their email address, so the record outlives an erasure
+// without keeping the address itself.
+export interface IPrivacyRequest extends Document {
+  type: 'export' | 'erasure';
+  subjectHash: string;
+  reference: string | null;
+  handledBy: Types.ObjectId | IUser;
+  records: IPrivacyRecordCounts;
+  // Stored files that could not be read or removed
+  failedFiles: number;
+  createdAt: Date;
+}
+
+const PrivacyRequestSchema: Schema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ['export', 'erasure'],
+      required: true
+    },
+    subjectHash: {
+      type: String,
+      required: true,
+      index: true
+    },
+    reference: {
+      type: String,
+      trim: true,
+      default: null
+    },
+    handledBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    records: {
+      users: { type: Number, default: 0 },
+      inquiries: { type: Number, default: 0 },
+      applications: { type: Number, default: 0 },
+      invitations: { type: Number, default: 0 },
+      files: { type: Number, default: 0 }
+    },
+    failedFiles: {
+      type: Number,
+      default: 0
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+PrivacyRequestSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IPrivacyRequest>('PrivacyRequest', PrivacyRequestSchema);
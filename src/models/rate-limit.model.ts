@@ -0,0 +1,29 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Hit counter for one client of one rate limiter (see utils/rate-limit-store.ts)
+export interface IRateLimit extends Document {
+  key: string;
+  hits: number;
+  resetAt: Date;
+}
+
+const RateLimitSchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  hits: {
+    type: Number,
+    default: 0
+  },
+  resetAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Drop counters once their window has passed
+RateLimitSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRateLimit>('RateLimit', RateLimitSchema);
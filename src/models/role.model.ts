@@ -6,7 +6,9 @@ export interface IRole extends Document {
   name: string;
   description: string;
   permissions: Types.ObjectId[] | IPermission[];
+  parentRoles: Types.ObjectId[] | IRole[];
   isDefault: boolean;
+  requireTwoFactor: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -30,9 +32,21 @@ const RoleSchema: Schema = new Schema(
         ref: 'Permission'
       }
     ],
+    // Roles whose permissions this role inherits
+    parentRoles: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Role'
+      }
+    ],
     isDefault: {
       type: Boolean,
       default: false
+    },
+    // Users holding this role must sign in with a second factor
+    requireTwoFactor: {
+      type: Boolean,
+      default: false
     }
   },
   {
@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IUser } from './user.model';
+
+// A session is one refresh token family: every rotation replaces tokenHash,
+// so only the most recently issued refresh token of the family is valid.
+export interface ISession extends Document {
+  user: Types.ObjectId | IUser;
+  tokenHash: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  lastRotatedAt: Date | null;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+  impersonatedBy: Types.ObjectId | IUser | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema: Schema = new Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false
+    },
+    device: {
+      type: String,
+      default: 'Unknown device'
+    },
+    userAgent: {
+      type: String,
+      default: null
+    },
+    ipAddress: {
+      type: String,
+      default: null
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    lastRotatedAt: {
+      type: Date,
+      default: null
+    },
+    revokedAt: {
+      type: Date,
+      default: null
+    },
+    revokedReason: {
+      type: String,
+      default: null
+    },
+    // Admin who started this session to impersonate the user
+    impersonatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Let MongoDB clean up sessions once they can no longer be refreshed
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
@@ -11,8 +11,27 @@ export interface IEmailSettings {
   smtpSecure?: boolean;
 }
 
+export interface IAuthSettings {
+  requireEmailVerification: boolean;
+  invitationExpiryHours: number;
+}
+
+export interface IPasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  disallowPersonalInfo: boolean;
+  blockCommonPasswords: boolean;
+  historySize: number;
+  maxAgeDays: number;
+}
+
 export interface ISettings extends Document {
   emailSettings: IEmailSettings;
+  authSettings: IAuthSettings;
+  passwordPolicy: IPasswordPolicy;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -48,6 +67,69 @@ const EmailSettingsSchema = new Schema({
   smtpSecure: Boolean
 });
 
+const AuthSettingsSchema = new Schema({
+  // Block login until the user has confirmed their email address
+  requireEmailVerification: {
+    type: Boolean,
+    default: false
+  },
+  // How long an invitation link stays valid
+  invitationExpiryHours: {
+    type: Number,
+    default: 72,
+    min: [1, 'Invitations must be valid for at least an hour'],
+    max: [720, 'Invitations cannot be valid for more than 30 days']
+  }
+}, { _id: false });
+
+const PasswordPolicySchema = new Schema({
+  minLength: {
+    type: Number,
+    default: 8,
+    min: [6, 'Minimum length cannot be less than 6'],
+    max: [50, 'Minimum length cannot exceed 50']
+  },
+  requireUppercase: {
+    type: Boolean,
+    default: false
+  },
+  requireLowercase: {
+    type: Boolean,
+    default: false
+  },
+  requireNumber: {
+    type: Boolean,
+    default: false
+  },
+  requireSymbol: {
+    type: Boolean,
+    default: false
+  },
+  // Reject passwords containing the user's name or email
+  disallowPersonalInfo: {
+    type: Boolean,
+    default: true
+  },
+  // Reject passwords from the bundled common password list
+  blockCommonPasswords: {
+    type: Boolean,
+    default: true
+  },
+  // Number of previous passwords that cannot be reused (0 disables the check)
+  historySize: {
+    type: Number,
+    default: 5,
+    min: 0,
+    max: 24
+  },
+  // Force a password change after this many days (0 disables expiry)
+  maxAgeDays: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+}, { _id: false });
+
 const SettingsSchema: Schema = new Schema(
   {
     emailSettings: {
@@ -58,6 +140,14 @@ const SettingsSchema: Schema = new Schema(
         fromEmail: 'noreply@example.com',
         fromName: 'Agency Name'
       }
+    },
+    authSettings: {
+      type: AuthSettingsSchema,
+      default: () => ({})
+    },
+    passwordPolicy: {
+      type: PasswordPolicySchema,
+      default: () => ({})
     }
   },
   {
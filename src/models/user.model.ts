@@ -2,28 +2,97 @@ import { IRole } from './role.model';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ISoftDelete, softDeletePlugin } from './plugins/soft-delete';
+import slugify from 'slugify';
 
+// Lock the account after this many consecutive failed logins,
+// for a period that doubles with every further failure
+const MAX_FAILED_LOGIN_ATTEMPTS = Number(process.env.MAX_FAILED_LOGIN_ATTEMPTS) || 5;
+const BASE_LOCK_DURATION_MS = 60 * 1000;
+const MAX_LOCK_DURATION_MS = 24 * 60 * 60 * 1000;
 
-export interface IUser extends Document {
+export interface ITwoFactor {
+  enabled: boolean;
+  secret: string | null;
+  pendingSecret: string | null;
+  backupCodes: string[];
+  lastUsedStep: number | null;
+  enabledAt: Date | null;
+}
+
+// An account at an external identity provider linked to this user
+export interface IIdentity {
+  provider: string;
+  subject: string;
+  email: string | null;
+  linkedAt: Date;
+}
+
+// Time bounds of a temporary role assignment; roles without one are permanent
+export interface IRoleAssignment {
+  role: Types.ObjectId;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  assignedAt: Date;
+}
+
+export interface ISocialLinks {
+  website: string | null;
+  twitter: string | null;
+  linkedin: string | null;
+  github: string | null;
+}
+
+// Public author profile. `avatar` is the storage key of an image in the profile category.
+export interface IUserProfile {
+  avatar: string | null;
+  bio: string | null;
+  jobTitle: string | null;
+  socialLinks: ISocialLinks;
+  slug: string;
+}
+
+export interface IUser extends Document, ISoftDelete {
   name: string;
   email: string;
   password: string;
+  passwordHistory: string[];
+  passwordChangedAt: Date | null;
   roles: Types.ObjectId[] | IRole[];
+  roleAssignments: IRoleAssignment[];
   isActive: boolean;
   isEmailVerified: boolean;
+  invitedBy: Types.ObjectId | IUser | null;
+  profile: IUserProfile;
   lastLoginAt: Date;
+  failedLoginAttempts: number;
+  lockUntil: Date | null;
   passwordResetToken: string | null;
   passwordResetExpires: Date | null;
   emailVerificationToken: string | null;
+  emailVerificationExpires: Date | null;
+  magicLinkToken: string | null;
+  magicLinkExpires: Date | null;
+  twoFactor: ITwoFactor;
+  identities: IIdentity[];
   createdAt: Date;
   updatedAt: Date;
   
   // Methods
   matchPassword(enteredPassword: string): Promise<boolean>;
+  isPasswordReused(candidate: string, historySize: number): Promise<boolean>;
+  setPassword(newPassword: string, historySize: number): void;
+  isRoleActive(roleId: Types.ObjectId | string): boolean;
+  getActiveRoleIds(): Types.ObjectId[];
   hasRole(roleName: string): boolean;
   hasPermission(permissionCode: string): boolean;
-  generatePasswordResetToken(): string;
+  requiresTwoFactor(): boolean;
+  isLocked(): boolean;
+  registerFailedLogin(): Promise<void>;
+  resetFailedLogins(): Promise<void>;
+  generatePasswordResetToken(validForMs?: number): string;
   generateEmailVerificationToken(): string;
+  generateMagicLinkToken(): string;
 }
 
 const UserSchema: Schema = new Schema(
@@ -51,12 +120,44 @@ const UserSchema: Schema = new Schema(
       minlength: [6, 'Password must be at least 6 characters'],
       select: false // Don't return password by default
     },
+    // bcrypt hashes of previous passwords, most recent first
+    passwordHistory: {
+      type: [String],
+      default: [],
+      select: false
+    },
+    passwordChangedAt: {
+      type: Date,
+      default: null
+    },
     roles: [
       {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'Role'
       }
     ],
+    roleAssignments: [
+      {
+        _id: false,
+        role: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: 'Role',
+          required: true
+        },
+        startsAt: {
+          type: Date,
+          default: null
+        },
+        expiresAt: {
+          type: Date,
+          default: null
+        },
+        assignedAt: {
+          type: Date,
+          default: Date.now
+        }
+      }
+    ],
     isActive: {
       type: Boolean,
       default: true
@@ -65,19 +166,159 @@ const UserSchema: Schema = new Schema(
       type: Boolean,
       default: false
     },
+    // Admin whose invitation created this account
+    invitedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    profile: {
+      avatar: {
+        type: String,
+        default: null
+      },
+      bio: {
+        type: String,
+        trim: true,
+        maxlength: [1000, 'Bio cannot be more than 1000 characters'],
+        default: null
+      },
+      jobTitle: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Job title cannot be more than 100 characters'],
+        default: null
+      },
+      socialLinks: {
+        website: { type: String, default: null },
+        twitter: { type: String, default: null },
+        linkedin: { type: String, default: null },
+        github: { type: String, default: null }
+      },
+      // Public author page address, generated from the name unless chosen
+      slug: {
+        type: String,
+        lowercase: true,
+        trim: true
+      }
+    },
     lastLoginAt: {
       type: Date,
       default: null
     },
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+      select: false
+    },
+    lockUntil: {
+      type: Date,
+      default: null,
+      select: false
+    },
     passwordResetToken: String,
     passwordResetExpires: Date,
-    emailVerificationToken: String
+    emailVerificationToken: String,
+    emailVerificationExpires: Date,
+    magicLinkToken: String,
+    magicLinkExpires: Date,
+    twoFactor: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      secret: {
+        type: String,
+        default: null,
+        select: false
+      },
+      // Secret generated during enrollment, promoted to `secret` once a code is verified
+      pendingSecret: {
+        type: String,
+        default: null,
+        select: false
+      },
+      // SHA-256 hashes of the unused backup codes
+      backupCodes: {
+        type: [String],
+        default: [],
+        select: false
+      },
+      // Last accepted time step, so a code cannot be replayed within its window
+      lastUsedStep: {
+        type: Number,
+        default: null,
+        select: false
+      },
+      enabledAt: {
+        type: Date,
+        default: null
+      }
+    },
+    identities: [
+      {
+        _id: false,
+        provider: {
+          type: String,
+          required: true
+        },
+        subject: {
+          type: String,
+          required: true
+        },
+        email: {
+          type: String,
+          default: null
+        },
+        linkedAt: {
+          type: Date,
+          default: Date.now
+        }
+      }
+    ]
   },
   {
     timestamps: true
   }
 );
 
+UserSchema.index({ 'identities.provider': 1, 'identities.subject': 1 });
+UserSchema.index({ 'roleAssignments.expiresAt': 1 });
+UserSchema.index({ 'profile.slug': 1 }, { unique: true, sparse: true });
+
+// Drop the time bounds of roles that are no longer assigned
+UserSchema.pre<IUser>('save', function(next) {
+  if (this.isModified('roles') && this.roleAssignments?.length) {
+    const roleIds = this.roles.map((role: any) => (role._id || role).toString());
+    this.roleAssignments = this.roleAssignments.filter(assignment => roleIds.includes(assignment.role.toString()));
+  }
+  next();
+});
+
+// Give every user a unique author slug, numbering slugs that are already taken
+UserSchema.pre<IUser>('save', async function(next) {
+  if (this.profile?.slug) return next();
+
+  try {
+    const base = slugify(this.name, { lower: true, strict: true }) || 'author';
+    const UserModel = this.constructor as mongoose.Model<IUser>;
+
+    // Deleted users keep their slug until the trash is purged, so they count as taken
+    const slugTaken = (slug: string) =>
+      UserModel.exists({ 'profile.slug': slug, _id: { $ne: this._id } }).setOptions({ withDeleted: true });
+
+    let slug = base;
+    for (let suffix = 2; await slugTaken(slug); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+
+    this.set('profile.slug', slug);
+    next();
+  } catch (error: any) {
+    next(error);
+  }
+});
+
 // Hash password before saving
 UserSchema.pre<IUser>('save', async function(next) {
   // Only hash the password if it has been modified
@@ -90,6 +331,7 @@ UserSchema.pre<IUser>('save', async function(next) {
     const salt = await bcrypt.genSalt(10);
     // Hash password
     this.password = await bcrypt.hash(this.password, salt);
+    this.passwordChangedAt = new Date();
     next();
   } catch (error: any) {
     next(error);
@@ -101,13 +343,64 @@ UserSchema.methods.matchPassword = async function(enteredPassword: string): Prom
   return await bcrypt.compare(enteredPassword, this.password);
 };
 
+// Method to check a candidate password against the current and previous passwords
+// (needs `+password +passwordHistory` to be selected)
+UserSchema.methods.isPasswordReused = async function(candidate: string, historySize: number): Promise<boolean> {
+  if (historySize <= 0) return false;
+
+  const hashes: string[] = [this.password, ...(this.passwordHistory || []).slice(0, historySize - 1)].filter(Boolean);
+  for (const hash of hashes) {
+    if (await bcrypt.compare(candidate, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+// Method to replace the password, moving the current hash into the history
+// (needs `+password +passwordHistory` to be selected; hashed by the pre-save hook)
+UserSchema.methods.setPassword = function(newPassword: string, historySize: number): void {
+  if (historySize <= 1) {
+    this.passwordHistory = [];
+  } else if (this.password) {
+    this.passwordHistory = [this.password, ...(this.passwordHistory || [])].slice(0, historySize - 1);
+  }
+
+  this.password = newPassword;
+};
+
+// Method to check whether an assigned role is within its time bounds
+UserSchema.methods.isRoleActive = function(roleId: Types.ObjectId | string): boolean {
+  const assignment = (this.roleAssignments || []).find(
+    (entry: IRoleAssignment) => entry.role.toString() === roleId.toString()
+  );
+  if (!assignment) return true;
+
+  const now = Date.now();
+  if (assignment.startsAt && assignment.startsAt.getTime() > now) return false;
+  return !assignment.expiresAt || assignment.expiresAt.getTime() > now;
+};
+
+// Method to get the IDs of the assigned roles that are currently in effect
+UserSchema.methods.getActiveRoleIds = function(): Types.ObjectId[] {
+  return (this.roles || [])
+    .map((role: any) => (role._id || role) as Types.ObjectId)
+    .filter((roleId: Types.ObjectId) => this.isRoleActive(roleId));
+};
+
 // Method to check if user has a specific role
 UserSchema.methods.hasRole = function(roleName: string): boolean {
+  // Use the compiled access attached by the auth middleware when available
+  if (this.$locals.access) {
+    return this.$locals.access.roles.has(roleName);
+  }
+
   if (!this.roles || this.roles.length === 0) return false;
   
-  // If roles are populated
+  // If roles are populated (directly assigned roles only; inherited roles need the compiled access)
   if (typeof this.roles[0] === 'object' && this.roles[0] !== null) {
-    return this.roles.some((role: any) => role.name === roleName);
+    return this.roles.some((role: any) => role.name === roleName && this.isRoleActive(role._id));
   }
   
   // If roles are not populated, we can't check by name
@@ -116,12 +409,17 @@ UserSchema.methods.hasRole = function(roleName: string): boolean {
 
 // Method to check if user has a specific permission
 UserSchema.methods.hasPermission = function(permissionCode: string): boolean {
+  // Use the compiled access attached by the auth middleware when available
+  if (this.$locals.access) {
+    return this.$locals.access.permissions.has(permissionCode);
+  }
+
   if (!this.roles || this.roles.length === 0) return false;
   
-  // If roles are populated with permissions
+  // If roles are populated with permissions (inherited permissions need the compiled access)
   if (typeof this.roles[0] === 'object' && this.roles[0] !== null) {
     for (const role of this.roles) {
-      if (!role.permissions) continue;
+      if (!role.permissions || !this.isRoleActive(role._id)) continue;
       
       for (const permission of (role as any).permissions) {
         // If permissions are populated
@@ -137,8 +435,59 @@ UserSchema.methods.hasPermission = function(permissionCode: string): boolean {
   return false;
 };
 
+// Method to check if any of the user's roles makes two-factor authentication mandatory
+UserSchema.methods.requiresTwoFactor = function(): boolean {
+  // Use the compiled access attached by the auth middleware when available
+  if (this.$locals.access) {
+    return this.$locals.access.requireTwoFactor;
+  }
+
+  if (!this.roles || this.roles.length === 0) return false;
+
+  // If roles are populated (only sees directly assigned roles, not inherited ones)
+  if (typeof this.roles[0] === 'object' && this.roles[0] !== null) {
+    return this.roles.some((role: any) => role.requireTwoFactor === true && this.isRoleActive(role._id));
+  }
+
+  return false;
+};
+
+// Method to check if the account is temporarily locked after failed logins
+UserSchema.methods.isLocked = function(): boolean {
+  return !!this.lockUntil && this.lockUntil.getTime() > Date.now();
+};
+
+// Count a failed login and lock the account with exponential backoff once the limit is reached
+UserSchema.methods.registerFailedLogin = async function(): Promise<void> {
+  const UserModel = this.constructor as mongoose.Model<IUser>;
+
+  // Increment atomically so parallel attempts are all counted
+  const updated = await UserModel
+    .findByIdAndUpdate(this._id, { $inc: { failedLoginAttempts: 1 } }, { new: true })
+    .select('failedLoginAttempts');
+  const attempts: number = updated?.failedLoginAttempts || 1;
+  this.failedLoginAttempts = attempts;
+
+  if (attempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+    const lockDuration = Math.min(
+      BASE_LOCK_DURATION_MS * 2 ** (attempts - MAX_FAILED_LOGIN_ATTEMPTS),
+      MAX_LOCK_DURATION_MS
+    );
+    this.lockUntil = new Date(Date.now() + lockDuration);
+    await UserModel.updateOne({ _id: this._id }, { lockUntil: this.lockUntil });
+  }
+};
+
+// Clear the failed login counter after a successful login
+UserSchema.methods.resetFailedLogins = async function(): Promise<void> {
+  if (!this.failedLoginAttempts && !this.lockUntil) return;
+
+  this.set({ failedLoginAttempts: 0, lockUntil: null });
+  await (this.constructor as mongoose.Model<IUser>).updateOne({ _id: this._id }, { failedLoginAttempts: 0, lockUntil: null });
+};
+
 // Generate and hash password reset token
-UserSchema.methods.generatePasswordResetToken = function(): string {
+UserSchema.methods.generatePasswordResetToken = function(validForMs: number = 10 * 60 * 1000): string {
   // Generate random token
   const resetToken = crypto.randomBytes(32).toString('hex');
 
@@ -148,8 +497,8 @@ UserSchema.methods.generatePasswordResetToken = function(): string {
     .update(resetToken)
     .digest('hex');
 
-  // Set token expiration (10 minutes)
-  this.passwordResetExpires = Date.now() + 10 * 60 * 1000;
+  // Set token expiration (10 minutes unless given)
+  this.passwordResetExpires = Date.now() + validForMs;
 
   return resetToken;
 };
@@ -165,6 +514,29 @@ UserSchema.methods.generateEmailVerificationToken = function(): string {
     .update(verificationToken)
     .digest('hex');
 
+  // Set token expiration (24 hours)
+  this.emailVerificationExpires = Date.now() + 24 * 60 * 60 * 1000;
+
   return verificationToken;
 };
+
+// Generate and hash a single-use passwordless login token
+UserSchema.methods.generateMagicLinkToken = function(): string {
+  // Generate random token
+  const magicLinkToken = crypto.randomBytes(32).toString('hex');
+
+  // Hash token and set to magicLinkToken field
+  this.magicLinkToken = crypto
+    .createHash('sha256')
+    .update(magicLinkToken)
+    .digest('hex');
+
+  // Set token expiration (15 minutes)
+  this.magicLinkExpires = Date.now() + 15 * 60 * 1000;
+
+  return magicLinkToken;
+};
+
+UserSchema.plugin(softDeletePlugin);
+
 export default mongoose.model<IUser>('User', UserSchema);;
\ No newline at end of file
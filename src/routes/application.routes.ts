@@ -3,11 +3,16 @@ import {
     getApplicationById,
     getApplications,
     getApplicationsByCareer,
+    getDeletedApplications,
+    restoreApplication,
     submitApplication,
-    updateApplicationStatus
+    updateApplicationStatus,
+    uploadResume
 } from '@/controllers/application.controller';
 import { protect } from '@/middleware/auth.middleware';
+import { applicationLimiter, resumeUploadLimiter } from '@/middleware/rate-limit.middleware';
 import { requirePermission } from '@/middleware/permission.middlware';
+import { handleUploadErrors, upload } from '@/middleware/upload.middleware';
 import { validate } from '@/middleware/validate.middleware';
 import {
     deleteApplicationSchema,
@@ -17,12 +22,17 @@ import {
     submitApplicationSchema,
     updateApplicationStatusSchema
 } from '@/schemas/application.schema';
+import { queryTrashSchema, restoreSchema } from '@/schemas/trash.schema';
 import express from 'express';
+import { registerResource } from '@/utils/permission-registry';
 
 const router = express.Router();
 
+registerResource('applications', 'Job applications', ['create', 'read', 'update', 'delete', 'manage', 'approve', 'view']);
+
 // Public routes
-router.post('/', validate(submitApplicationSchema), submitApplication);
+router.post('/', applicationLimiter, validate(submitApplicationSchema), submitApplication);
+router.post('/resume', resumeUploadLimiter, upload.single('resume'), handleUploadErrors, uploadResume);
 
 // Protected routes - Admin only
 router.use(protect(true));
@@ -34,6 +44,12 @@ router.get('/',
   getApplications
 );
 
+router.get('/trash', 
+  requirePermission('applications:delete'), 
+  validate(queryTrashSchema), 
+  getDeletedApplications
+);
+
 router.get('/career/:careerId', 
   requirePermission('applications:view'), 
   validate(getApplicationsByCareerSchema), 
@@ -58,4 +74,10 @@ router.delete('/:id',
   deleteApplication
 );
 
+router.post('/:id/restore', 
+  requirePermission('applications:delete'), 
+  validate(restoreSchema), 
+  restoreApplication
+);
+
 export default router;
\ No newline at end of file
@@ -1,39 +1,111 @@
 import {
+    changeExpiredPassword,
     changePassword,
     forgotPassword,
     getMe,
     login,
+    loginWithMagicLink,
     logout,
     refreshToken,
     register,
+    requestMagicLink,
+    resendVerification,
     resetPassword,
     verifyEmail
 } from '@/controllers/auth.controller';
-import { protect } from '@/middleware/auth.middleware';
+import { createApiKey, getMyApiKeys, revokeApiKey } from '@/controllers/api-key.controller';
+import { completeOidcLogin, getProviders, oidcCallback, startOidcLogin } from '@/controllers/oidc.controller';
+import { acceptInvitation, getInvitationByToken } from '@/controllers/invitation.controller';
+import { getMyProfile, updateMyProfile } from '@/controllers/profile.controller';
+import { endImpersonation } from '@/controllers/impersonation.controller';
+import { getMySessions, revokeMyOtherSessions, revokeMySession } from '@/controllers/session.controller';
+import {
+    disableTwoFactor,
+    loginWithTwoFactor,
+    regenerateBackupCodes,
+    setupTwoFactor,
+    verifyTwoFactor
+} from '@/controllers/two-factor.controller';
+import { denyImpersonation, protect } from '@/middleware/auth.middleware';
+import { loginLimiter, magicLinkLimiter, passwordResetLimiter, verificationEmailLimiter } from '@/middleware/rate-limit.middleware';
+import { handleUploadErrors, upload } from '@/middleware/upload.middleware';
 import { validate } from '@/middleware/validate.middleware';
 import {
     changePasswordSchema,
+    disableTwoFactorSchema,
+    expiredPasswordSchema,
     forgotPasswordSchema,
     loginSchema,
+    magicLinkLoginSchema,
+    magicLinkRequestSchema,
     registerSchema,
-    resetPasswordSchema
+    resendVerificationSchema,
+    resetPasswordSchema,
+    twoFactorCodeSchema,
+    twoFactorLoginSchema,
+    twoFactorSetupSchema,
+    verifyEmailSchema
 } from '@/schemas/auth.schema';
+import { apiKeyIdSchema, createApiKeySchema } from '@/schemas/api-key.schema';
+import { acceptInvitationSchema, invitationTokenSchema } from '@/schemas/invitation.schema';
+import { updateProfileSchema } from '@/schemas/profile.schema';
+import { oidcCallbackSchema, oidcCompleteSchema, oidcProviderSchema } from '@/schemas/oidc.schema';
+import { sessionIdSchema } from '@/schemas/session.schema';
 import express from 'express';
 
 const router = express.Router();
 
 // Public routes
 router.post('/register', validate(registerSchema), register);
-router.post('/login', validate(loginSchema), login);
+router.post('/login', loginLimiter, validate(loginSchema), login);
+router.post('/login/2fa', loginLimiter, validate(twoFactorLoginSchema), loginWithTwoFactor);
+router.post('/magic-link', magicLinkLimiter, validate(magicLinkRequestSchema), requestMagicLink);
+router.post('/magic-link/:token', loginLimiter, validate(magicLinkLoginSchema), loginWithMagicLink);
 router.post('/refresh-token', refreshToken);
-router.post('/forgot-password', validate(forgotPasswordSchema), forgotPassword);
+router.post('/forgot-password', passwordResetLimiter, validate(forgotPasswordSchema), forgotPassword);
 router.post('/reset-password/:token', validate(resetPasswordSchema), resetPassword);
-router.get('/verify-email/:token', verifyEmail);
+router.post('/password-expired', loginLimiter, validate(expiredPasswordSchema), changeExpiredPassword);
+router.get('/verify-email/:token', validate(verifyEmailSchema), verifyEmail);
+router.post('/resend-verification', verificationEmailLimiter, validate(resendVerificationSchema), resendVerification);
+
+// Invitations sent by admins
+router.get('/invites/:token', validate(invitationTokenSchema), getInvitationByToken);
+router.post('/invites/:token/accept', loginLimiter, validate(acceptInvitationSchema), acceptInvitation);
+
+// Single sign-on through OIDC identity providers
+router.get('/oidc/providers', getProviders);
+router.post('/oidc/complete', loginLimiter, validate(oidcCompleteSchema), completeOidcLogin);
+router.get('/oidc/:provider', validate(oidcProviderSchema), startOidcLogin);
+router.get('/oidc/:provider/callback', validate(oidcCallbackSchema), oidcCallback);
+
+// Two-factor enrollment works with a session or with a login challenge token
+router.post('/2fa/setup', protect(false), validate(twoFactorSetupSchema), setupTwoFactor);
 
 // Protected routes
 router.use(protect(true));
 router.get('/me', getMe);
+router.get('/me/profile', getMyProfile);
+router.put('/me/profile', denyImpersonation, upload.single('avatar'), handleUploadErrors, validate(updateProfileSchema), updateMyProfile);
 router.post('/logout', logout);
-router.put('/change-password', validate(changePasswordSchema), changePassword);
+router.put('/change-password', denyImpersonation, validate(changePasswordSchema), changePassword);
+router.post('/impersonation/end', endImpersonation);
+
+// Session management routes
+router.route('/sessions')
+  .get(getMySessions)
+  .delete(denyImpersonation, revokeMyOtherSessions);
+router.delete('/sessions/:sessionId', denyImpersonation, validate(sessionIdSchema), revokeMySession);
+
+// API key management routes
+router.route('/api-keys')
+  .get(getMyApiKeys)
+  .post(denyImpersonation, validate(createApiKeySchema), createApiKey);
+router.delete('/api-keys/:keyId', denyImpersonation, validate(apiKeyIdSchema), revokeApiKey);
+
+// Two-factor management routes
+router.use('/2fa', denyImpersonation);
+router.post('/2fa/verify', validate(twoFactorCodeSchema), verifyTwoFactor);
+router.post('/2fa/disable', validate(disableTwoFactorSchema), disableTwoFactor);
+router.post('/2fa/backup-codes', validate(twoFactorCodeSchema), regenerateBackupCodes);
 
 export default router;
\ No newline at end of file
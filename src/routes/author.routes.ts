@@ -0,0 +1,11 @@
+import { getAuthorBySlug } from '@/controllers/profile.controller';
+import { validate } from '@/middleware/validate.middleware';
+import { authorSlugSchema } from '@/schemas/profile.schema';
+import express from 'express';
+
+const router = express.Router();
+
+// Public author pages
+router.get('/:slug', validate(authorSlugSchema), getAuthorBySlug);
+
+export default router;
@@ -9,8 +9,23 @@ import {
   likeBlog,
   getFeaturedBlogs,
   getRelatedBlogs,
-  getBlogStats
+  getBlogStats,
+  getDeletedBlogs,
+  restoreBlog
 } from '@/controllers/blogs.controller';
+import {
+  diffBlogRevisions,
+  getBlogRevision,
+  getBlogRevisions,
+  restoreBlogRevision
+} from '@/controllers/blog-revision.controller';
+import {
+  addReviewComment,
+  assignReviewers,
+  getReviewComments,
+  getReviewQueue,
+  transitionBlog
+} from '@/controllers/blog-review.controller';
 import { validate } from '@/middleware/validate.middleware';
 import { 
   createBlogSchema, 
@@ -18,18 +33,35 @@ import {
   getBlogSchema, 
   getBlogBySlugSchema,
   deleteBlogSchema,
-  queryBlogSchema
+  queryBlogSchema,
+  queryBlogRevisionsSchema,
+  diffBlogRevisionsSchema,
+  getBlogRevisionSchema,
+  restoreBlogRevisionSchema,
+  transitionBlogSchema,
+  assignReviewersSchema,
+  createReviewCommentSchema,
+  queryReviewQueueSchema
 } from '@/schemas/blog.schema';
 import { protect } from '@/middleware/auth.middleware';
 import { requirePermission } from '@/middleware/permission.middlware';
+import { queryTrashSchema, restoreSchema } from '@/schemas/trash.schema';
+import { registerResource } from '@/utils/permission-registry';
 
 const router = express.Router();
 
+registerResource('blogs', 'Blog posts', ['create', 'read', 'update', 'delete', 'manage', 'publish', 'approve']);
+
 // Public routes with optional authentication
 router.get('/', protect(false), validate(queryBlogSchema), getBlogs);
 router.get('/featured', getFeaturedBlogs);
-router.get('/slug/:slug', validate(getBlogBySlugSchema), getBlogBySlug);
-router.get('/:id', validate(getBlogSchema), getBlogById);
+router.get('/slug/:slug', protect(false), validate(getBlogBySlugSchema), getBlogBySlug);
+
+// Trash (before the public /:id route)
+router.get('/trash', protect(true), requirePermission('blogs:delete'), validate(queryTrashSchema), getDeletedBlogs);
+router.get('/reviews', protect(true), requirePermission('blogs:approve', 'blogs:publish'), validate(queryReviewQueueSchema), getReviewQueue);
+
+router.get('/:id', protect(false), validate(getBlogSchema), getBlogById);
 router.get('/:id/related', validate(getBlogSchema), getRelatedBlogs);
 
 // Protected routes - require authentication
@@ -54,6 +86,62 @@ router.delete('/:id',
   deleteBlog
 );
 
+router.post('/:id/restore', 
+  requirePermission('blogs:delete'), 
+  validate(restoreSchema), 
+  restoreBlog
+);
+
+// Revision history
+router.get('/:id/revisions', 
+  requirePermission('blogs:update', 'blogs:approve'), 
+  validate(queryBlogRevisionsSchema), 
+  getBlogRevisions
+);
+
+router.get('/:id/revisions/diff', 
+  requirePermission('blogs:update', 'blogs:approve'), 
+  validate(diffBlogRevisionsSchema), 
+  diffBlogRevisions
+);
+
+router.get('/:id/revisions/:number', 
+  requirePermission('blogs:update', 'blogs:approve'), 
+  validate(getBlogRevisionSchema), 
+  getBlogRevision
+);
+
+router.post('/:id/revisions/:number/restore', 
+  requirePermission('blogs:update'), 
+  validate(restoreBlogRevisionSchema), 
+  restoreBlogRevision
+);
+
+// Editorial review
+router.post('/:id/transition', 
+  requirePermission('blogs:update', 'blogs:approve', 'blogs:publish'), 
+  validate(transitionBlogSchema), 
+  transitionBlog
+);
+
+router.put('/:id/reviewers', 
+  requirePermission('blogs:update'), 
+  validate(assignReviewersSchema), 
+  assignReviewers
+);
+
+router.get('/:id/review-comments', 
+  requirePermission('blogs:update', 'blogs:approve'), 
+  validate(getBlogSchema), 
+  getReviewComments
+);
+
+router.post('/:id/review-comments', 
+  requirePermission('blogs:update', 'blogs:approve'), 
+  validate(createReviewCommentSchema), 
+  addReviewComment
+);
+
 // Like functionality - allow any authenticated user
 router.put('/:id/like', likeBlog);
 
@@ -7,7 +7,9 @@ import {
     getCareers,
     getCareersByDepartment,
     getCareerStats,
+    getDeletedCareers,
     getDepartments,
+    restoreCareer,
     updateCareer,
     updateCareerStatus
 } from '@/controllers/career.controller';
@@ -21,14 +23,22 @@ import {
     queryCareerSchema,
     updateCareerSchema
 } from '@/schemas/career.schema';
+import { queryTrashSchema, restoreSchema } from '@/schemas/trash.schema';
+import { registerResource } from '@/utils/permission-registry';
 
 const router = express.Router();
 
+registerResource('careers', 'Career postings', ['create', 'read', 'update', 'delete', 'manage', 'publish']);
+
 // Public routes with optional authentication
 router.get('/', protect(false), validate(queryCareerSchema), getCareers);
 router.get('/departments', getDepartments);
 router.get('/slug/:slug', getCareerBySlug);
 router.get('/department/:department', getCareersByDepartment);
+
+// Trash (before the public /:id route)
+router.get('/trash', protect(true), requirePermission('careers:delete'), validate(queryTrashSchema), getDeletedCareers);
+
 router.get('/:id', validate(getCareerSchema), getCareerById);
 
 // Protected routes
@@ -53,6 +63,12 @@ router.delete('/:id',
   deleteCareer
 );
 
+router.post('/:id/restore', 
+  requirePermission('careers:delete'), 
+  validate(restoreSchema), 
+  restoreCareer
+);
+
 router.patch('/:id/status', 
   requirePermission('careers:update', 'careers:publish'), 
   updateCareerStatus
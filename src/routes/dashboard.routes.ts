@@ -9,9 +9,12 @@ import {
 import { protect } from "@/middleware/auth.middleware"
 import { requirePermission } from "@/middleware/permission.middlware"
 import express from "express"
+import { registerResource } from "@/utils/permission-registry"
 
 const router = express.Router()
 
+registerResource("dashboard", "Dashboard statistics", ["read", "view", "manage"])
+
 // All dashboard routes require authentication
 router.use(protect(true))
 
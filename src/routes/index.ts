@@ -10,18 +10,23 @@ import usersRoutes from "./user.routes";
 import inquiryRoutes from './inquiry.routes';
 import settingsRoutes from './settings.routes';
 import dashboardRoutes from './dashboard.routes';
+import authorRoutes from './author.routes';
+import privacyRoutes from './privacy.routes';
+import { mountRouter } from "@/utils/route-catalog";
 
 const router = Router();
-router.use("/auth", authRoutes);
-router.use("/blogs", blogsRoutes);
-router.use("/careers", careersRoutes);
-router.use("/permissions", permissionsRoutes);
-router.use("/roles", rolesRoutes);
-router.use("/users", usersRoutes);
-router.use("/applications", applicationRoutes);
-router.use("/storage", storageRoutes);
-router.use('/inquiries', inquiryRoutes);
-router.use('/settings', settingsRoutes);
-router.use('/dashboard', dashboardRoutes);
+mountRouter(router, "/auth", authRoutes);
+mountRouter(router, "/blogs", blogsRoutes);
+mountRouter(router, "/careers", careersRoutes);
+mountRouter(router, "/permissions", permissionsRoutes);
+mountRouter(router, "/roles", rolesRoutes);
+mountRouter(router, "/users", usersRoutes);
+mountRouter(router, "/applications", applicationRoutes);
+mountRouter(router, "/storage", storageRoutes);
+mountRouter(router, '/inquiries', inquiryRoutes);
+mountRouter(router, '/settings', settingsRoutes);
+mountRouter(router, '/dashboard', dashboardRoutes);
+mountRouter(router, '/authors', authorRoutes);
+mountRouter(router, '/privacy', privacyRoutes);
 
 export default router
@@ -3,12 +3,15 @@ import {
   assignInquiry,
   createInquiry,
   deleteInquiry,
+  getDeletedInquiries,
   getInquiries,
   getInquiry,
+  restoreInquiry,
   updateInquiry,
   updateInquiryStatus
 } from '@/controllers/inquiry.controller';
 import { protect } from '@/middleware/auth.middleware';
+import { inquiryLimiter } from '@/middleware/rate-limit.middleware';
 import { requirePermission } from '@/middleware/permission.middlware';
 import { validate } from '@/middleware/validate.middleware';
 import {
@@ -19,17 +22,22 @@ import {
   updateInquirySchema,
   updateInquiryStatusSchema
 } from '@/schemas/inquiry.schema';
+import { queryTrashSchema, restoreSchema } from '@/schemas/trash.schema';
+import { registerResource } from '@/utils/permission-registry';
 
 const router = express.Router();
 
+registerResource('inquiries', 'Contact form inquiries', ['create', 'read', 'update', 'delete', 'manage', 'assign']);
+
 // Public route for creating inquiries (contact form submissions)
-router.post('/', validate(createInquirySchema), createInquiry);
+router.post('/', inquiryLimiter, validate(createInquirySchema), createInquiry);
 
 // Protected routes
 router.use(protect(true));
 
 // Routes that require 'inquiries:read' permission
 router.get('/', requirePermission('inquiries:read'), validate(queryInquirySchema), getInquiries);
+router.get('/trash', requirePermission('inquiries:delete'), validate(queryTrashSchema), getDeletedInquiries);
 router.get('/:id', requirePermission('inquiries:read'), validate(inquiryIdSchema), getInquiry);
 
 // Routes that require 'inquiries:update' permission
@@ -41,5 +49,6 @@ router.patch('/:id/assign', requirePermission('inquiries:assign'), validate(assi
 
 // Routes that require 'inquiries:delete' permission
 router.delete('/:id', requirePermission('inquiries:delete'), validate(inquiryIdSchema), deleteInquiry);
+router.post('/:id/restore', requirePermission('inquiries:delete'), validate(restoreSchema), restoreInquiry);
 
 export default router;
\ No newline at end of file
@@ -2,17 +2,23 @@ import express from 'express';
 import {
     createPermission,
     deletePermission,
+    explainUserPermission,
     getPermissionById,
     getPermissions,
+    getPermissionsCatalog,
     updatePermission
 } from '@/controllers/permission.controller';
 import { protect } from '@/middleware/auth.middleware';
 import { requirePermission } from '@/middleware/permission.middlware';
 import { validate } from '@/middleware/validate.middleware';
 import { createPermissionSchema, permissionIdSchema, updatePermissionSchema } from '@/schemas/auth.schema';
+import { explainPermissionSchema } from '@/schemas/permission.schema';
+import { registerResource } from '@/utils/permission-registry';
 
 const router = express.Router();
 
+registerResource('permissions', 'Permissions', ['read', 'update', 'delete', 'manage']);
+
 // Apply protection to all routes
 router.use(protect(true));
 
@@ -20,6 +26,9 @@ router.route('/')
   .get(requirePermission('permissions:read'), getPermissions)
   .post(validate(createPermissionSchema), createPermission);
 
+router.get('/catalog', requirePermission('permissions:read'), getPermissionsCatalog);
+router.get('/explain', requirePermission('permissions:read'), requirePermission('users:read'), validate(explainPermissionSchema), explainUserPermission);
+
 router.route('/:id')
   .get(requirePermission('permissions:read'), validate(permissionIdSchema), getPermissionById)
   .put(requirePermission('permissions:update'), validate(updatePermissionSchema), updatePermission)
@@ -0,0 +1,25 @@
+import {
+  eraseSubject,
+  exportSubjectData,
+  getPrivacyRequests,
+  lookupSubjectData
+} from '@/controllers/privacy.controller';
+import { denyImpersonation, protect } from '@/middleware/auth.middleware';
+import { requirePermission } from '@/middleware/permission.middlware';
+import { validate } from '@/middleware/validate.middleware';
+import { eraseSubjectSchema, privacySubjectSchema, queryPrivacyRequestsSchema } from '@/schemas/privacy.schema';
+import express from 'express';
+import { registerResource } from '@/utils/permission-registry';
+
+const router = express.Router();
+
+registerResource('privacy', 'Personal data export and erasure requests', ['read', 'manage']);
+
+router.use(protect(true));
+
+router.get('/requests', requirePermission('privacy:read'), validate(queryPrivacyRequestsSchema), getPrivacyRequests);
+router.post('/lookup', requirePermission('privacy:read'), validate(privacySubjectSchema), lookupSubjectData);
+router.post('/export', requirePermission('privacy:manage'), denyImpersonation, validate(privacySubjectSchema), exportSubjectData);
+router.post('/erase', requirePermission('privacy:manage'), denyImpersonation, validate(eraseSubjectSchema), eraseSubject);
+
+export default router;
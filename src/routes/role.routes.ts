@@ -3,32 +3,49 @@ import {
     addPermissionsToRole,
     createRole,
     deleteRole,
+    exportRolesDocument,
     getRoleById,
+    getRoleEffectivePermissions,
     getRoles,
+    importRolesDocument,
     removePermissionsFromRole,
     setRolePermissions,
+    simulateRole,
     updateRole
 } from '@/controllers/role.controller';
-import { protect } from '@/middleware/auth.middleware';
+import { denyImpersonation, protect } from '@/middleware/auth.middleware';
 import { requirePermission } from '@/middleware/permission.middlware';
 import { validate } from '@/middleware/validate.middleware';
-import { createRoleSchema, roleIdSchema, rolePermissionsSchema, updateRoleSchema } from '@/schemas/auth.schema';
+import { createRoleSchema, importRolesSchema, roleIdSchema, rolePermissionsSchema, simulateRoleSchema, updateRoleSchema } from '@/schemas/auth.schema';
+import { registerResource } from '@/utils/permission-registry';
 
 const router = express.Router();
 
+registerResource('roles', 'Roles', ['create', 'read', 'update', 'delete', 'manage']);
+
 // Apply protection to all routes
 router.use(protect(true));
 
+// Roles cannot be changed while impersonating
+router.use((req, res, next) => (req.method === 'GET' ? next() : denyImpersonation(req, res, next)));
+
 // Role routes
 router.route('/')
   .get(requirePermission('roles:read'), getRoles)
   .post(requirePermission('roles:create'), validate(createRoleSchema), createRole);
 
+// Role import/export (before the /:id routes)
+router.get('/export', requirePermission('roles:read'), exportRolesDocument);
+router.post('/import', requirePermission('roles:manage'), validate(importRolesSchema), importRolesDocument);
+
 router.route('/:id')
   .get(requirePermission('roles:read'), validate(roleIdSchema), getRoleById)
   .put(requirePermission('roles:update'), validate(updateRoleSchema), updateRole)
   .delete(requirePermission('roles:delete'), validate(roleIdSchema), deleteRole);
 
+router.get('/:id/effective-permissions', requirePermission('roles:read'), validate(roleIdSchema), getRoleEffectivePermissions);
+router.post('/:id/simulate', requirePermission('roles:read'), validate(simulateRoleSchema), simulateRole);
+
 // Role permissions routes
 router.route('/:id/permissions')
   .post(requirePermission('roles:update'), validate(rolePermissionsSchema), addPermissionsToRole)
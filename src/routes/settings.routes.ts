@@ -1,13 +1,22 @@
 import express from 'express';
 import {
+  getAuthSettings,
   getEmailSettings,
-  updateEmailSettings
+  getPasswordPolicySettings,
+  updateAuthSettings,
+  updateEmailSettings,
+  updatePasswordPolicySettings
 } from '@/controllers/settings.controller';
 import { protect } from '@/middleware/auth.middleware';
 import { requirePermission } from '@/middleware/permission.middlware';
+import { validate } from '@/middleware/validate.middleware';
+import { updateAuthSettingsSchema, updatePasswordPolicySchema } from '@/schemas/settings.schema';
+import { registerResource } from '@/utils/permission-registry';
 
 const router = express.Router();
 
+registerResource('settings', 'Application settings', ['read', 'update', 'manage']);
+
 // Apply protection to all routes
 router.use(protect(true));
 
@@ -16,4 +25,14 @@ router.route('/email')
   .get(requirePermission('settings:read'), getEmailSettings)
   .put(requirePermission('settings:update'), updateEmailSettings);
 
+// Authentication settings routes
+router.route('/auth')
+  .get(requirePermission('settings:read'), getAuthSettings)
+  .put(requirePermission('settings:update'), validate(updateAuthSettingsSchema), updateAuthSettings);
+
+// Password policy routes
+router.route('/password-policy')
+  .get(requirePermission('settings:read'), getPasswordPolicySettings)
+  .put(requirePermission('settings:update'), validate(updatePasswordPolicySchema), updatePasswordPolicySettings);
+
 export default router;
\ No newline at end of file
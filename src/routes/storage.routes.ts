@@ -12,6 +12,7 @@ import { protect } from '../middleware/auth.middleware';
 import { requirePermission } from '../middleware/permission.middlware';
 import { upload, handleUploadErrors } from '../middleware/upload.middleware';
 import { validate } from '../middleware/validate.middleware';
+import { registerResource } from '../utils/permission-registry';
 import { 
   presignedUrlSchema,
   fileKeySchema,
@@ -21,22 +22,22 @@ import {
 
 const router = express.Router();
 
-// Apply protection to all routes
-// router.use(protect(true));
+registerResource('storage', 'Files in object storage', ['create', 'read', 'delete', 'manage']);
 
-// For storage routes, we'll need to decide which resource type they fall under
-// Since there's no specific storage resource, we could use a general 'manage' permission
-// or create a new resource type. For now, let's use basic authentication.
+// Apply protection to all routes
+router.use(protect(true));
 
 // Presigned URL routes
 router.post(
   '/presigned-upload',
+  requirePermission('storage:create'),
   validate(presignedUrlSchema),
   getPresignedUploadUrl
 );
 
 router.get(
   '/presigned-download/:key',
+  requirePermission('storage:read'),
   validate(fileKeySchema),
   getPresignedDownloadUrl
 );
@@ -44,6 +45,7 @@ router.get(
 // Direct upload route
 router.post(
   '/upload',
+  requirePermission('storage:create'),
   upload.single('file'),
   handleUploadErrors,
   uploadFileToS3
@@ -52,24 +54,28 @@ router.post(
 // File operations
 router.delete(
   '/:key',
+  requirePermission('storage:delete'),
   validate(fileKeySchema),
   deleteFileFromS3
 );
 
 router.get(
   '/metadata/:key',
+  requirePermission('storage:read'),
   validate(fileKeySchema),
   getFileInfo
 );
 
 router.get(
   '/list',
+  requirePermission('storage:read'),
   validate(listFilesSchema),
   listFilesInS3
 );
 
 router.post(
   '/copy',
+  requirePermission('storage:create'),
   validate(copyFileSchema),
   copyFileInS3
 );
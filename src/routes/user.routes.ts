@@ -2,40 +2,90 @@ import {
   assignRolesToUser,
   createUser,
   deleteUser,
+  getDeletedUsers,
   getUser,
   getUserRoles,
   getUsers,
   removeRolesFromUser,
+  restoreUser,
   setUserRoles,
   updateUser
 } from '@/controllers/user.controller';
-import { protect } from '@/middleware/auth.middleware';
+import {
+  bulkAssignRoles,
+  bulkCreateUsers,
+  bulkDeactivateUsers,
+  bulkDeleteUsers,
+  bulkReactivateUsers,
+  bulkRemoveRoles,
+  importUsersFromCsv
+} from '@/controllers/user-bulk.controller';
+import { getInvitations, inviteUser, resendInvitation, revokeInvitation } from '@/controllers/invitation.controller';
+import { impersonateUser } from '@/controllers/impersonation.controller';
+import { getUserSessions, revokeAllUserSessions, revokeUserSession } from '@/controllers/session.controller';
+import { denyImpersonation, protect } from '@/middleware/auth.middleware';
 import { requirePermission } from '@/middleware/permission.middlware';
+import { authorize } from '@/middleware/role.middlware';
+import { handleUploadErrors, upload } from '@/middleware/upload.middleware';
 import { validate } from '@/middleware/validate.middleware';
-import { userIdSchema, userRolesSchema } from '@/schemas/auth.schema';
-import { queryUserSchema } from '@/schemas/users.schema';
+import { bulkUserRolesSchema, userIdSchema, userRolesSchema } from '@/schemas/auth.schema';
+import { invitationIdSchema, inviteUserSchema, queryInvitationsSchema } from '@/schemas/invitation.schema';
+import { userSessionIdSchema, userSessionsSchema } from '@/schemas/session.schema';
+import { queryTrashSchema, restoreSchema } from '@/schemas/trash.schema';
+import { bulkCreateUsersSchema, bulkUserIdsSchema, queryUserSchema } from '@/schemas/users.schema';
 import express from 'express';
+import { registerResource } from '@/utils/permission-registry';
 
 const router = express.Router();
 
+registerResource('users', 'User accounts', ['create', 'read', 'update', 'delete', 'manage']);
+
 // Apply protection to all routes
 router.use(protect(true));
 
 router.route('/')
   .get(requirePermission('users:read'), validate(queryUserSchema), getUsers)
-  .post(requirePermission('users:create'), createUser);
+  .post(requirePermission('users:create'), denyImpersonation, createUser);
+
+// Invitations (before the /:id routes)
+router.post('/invite', requirePermission('users:create'), denyImpersonation, validate(inviteUserSchema), inviteUser);
+router.get('/invites', requirePermission('users:read'), validate(queryInvitationsSchema), getInvitations);
+router.post('/invites/:id/resend', requirePermission('users:create'), denyImpersonation, validate(invitationIdSchema), resendInvitation);
+router.delete('/invites/:id', requirePermission('users:create'), denyImpersonation, validate(invitationIdSchema), revokeInvitation);
+
+// Bulk user administration (before the /:id routes, which would otherwise match /bulk/roles)
+router.post('/bulk/create', requirePermission('users:create'), denyImpersonation, validate(bulkCreateUsersSchema), bulkCreateUsers);
+router.post('/bulk/import', requirePermission('users:create'), denyImpersonation, upload.single('file'), handleUploadErrors, importUsersFromCsv);
+router.post('/bulk/deactivate', requirePermission('users:update'), denyImpersonation, validate(bulkUserIdsSchema), bulkDeactivateUsers);
+router.post('/bulk/reactivate', requirePermission('users:update'), denyImpersonation, validate(bulkUserIdsSchema), bulkReactivateUsers);
+router.post('/bulk/delete', requirePermission('users:delete'), denyImpersonation, validate(bulkUserIdsSchema), bulkDeleteUsers);
+router.post('/bulk/roles/assign', requirePermission('users:update'), requirePermission('roles:read'), denyImpersonation, validate(bulkUserRolesSchema), bulkAssignRoles);
+router.post('/bulk/roles/remove', requirePermission('users:update'), requirePermission('roles:read'), denyImpersonation, validate(bulkUserRolesSchema), bulkRemoveRoles);
+
+// Trash (before the /:id routes)
+router.get('/trash', requirePermission('users:delete'), validate(queryTrashSchema), getDeletedUsers);
 
 // Single user routes
 router.route('/:id')
   .get(requirePermission('users:read'), validate(userIdSchema), getUser)
-  .put(requirePermission('users:update'), validate(userIdSchema), updateUser)
-  .delete(requirePermission('users:delete'), validate(userIdSchema), deleteUser);
+  .put(requirePermission('users:update'), denyImpersonation, validate(userIdSchema), updateUser)
+  .delete(requirePermission('users:delete'), denyImpersonation, validate(userIdSchema), deleteUser);
+router.post('/:id/restore', requirePermission('users:delete'), denyImpersonation, validate(restoreSchema), restoreUser);
 
 // User roles routes
 router.route('/:id/roles')
-  .get(requirePermission('users:read', 'roles:read'), validate(userIdSchema), getUserRoles)
-  .post(requirePermission('users:update', 'roles:read'), validate(userRolesSchema), assignRolesToUser)
-  .put(requirePermission('users:update', 'roles:read'), validate(userRolesSchema), setUserRoles)
-  .delete(requirePermission('users:update', 'roles:read'), validate(userRolesSchema), removeRolesFromUser);
+  .get(requirePermission('users:read'), requirePermission('roles:read'), validate(userIdSchema), getUserRoles)
+  .post(requirePermission('users:update'), requirePermission('roles:read'), denyImpersonation, validate(userRolesSchema), assignRolesToUser)
+  .put(requirePermission('users:update'), requirePermission('roles:read'), denyImpersonation, validate(userRolesSchema), setUserRoles)
+  .delete(requirePermission('users:update'), requirePermission('roles:read'), denyImpersonation, validate(userRolesSchema), removeRolesFromUser);
+
+// User sessions routes
+router.route('/:id/sessions')
+  .get(requirePermission('users:read'), validate(userSessionsSchema), getUserSessions)
+  .delete(requirePermission('users:update'), validate(userSessionsSchema), revokeAllUserSessions);
+router.delete('/:id/sessions/:sessionId', requirePermission('users:update'), validate(userSessionIdSchema), revokeUserSession);
+
+// Impersonation (SuperAdmin only)
+router.post('/:id/impersonate', authorize('SuperAdmin'), denyImpersonation, validate(userIdSchema), impersonateUser);
 
 export default router;
\ No newline at end of file
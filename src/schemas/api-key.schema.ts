@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+// Scopes use the same `resource:action` codes as permissions
+const scopeSchema = z.string().regex(/^[a-z]+:[a-z]+$/, 'Scopes must look like resource:action');
+
+export const createApiKeySchema = z.object({
+  body: z.object({
+    name: z.string().min(1).max(100),
+    scopes: z.array(scopeSchema).min(1),
+    expiresInDays: z.number().int().min(1).max(365).optional()
+  })
+});
+
+export const apiKeyIdSchema = z.object({
+  params: z.object({
+    keyId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid API key ID')
+  })
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>['body'];
+export type ApiKeyIdParams = z.infer<typeof apiKeyIdSchema>['params'];
@@ -32,6 +32,30 @@ export const resetPasswordSchema = z.object({
   })
 });
 
+export const verifyEmailSchema = z.object({
+  params: z.object({
+    token: z.string()
+  })
+});
+
+export const resendVerificationSchema = z.object({
+  body: z.object({
+    email: z.string().email()
+  })
+});
+
+export const magicLinkRequestSchema = z.object({
+  body: z.object({
+    email: z.string().email()
+  })
+});
+
+export const magicLinkLoginSchema = z.object({
+  params: z.object({
+    token: z.string()
+  })
+});
+
 export const changePasswordSchema = z.object({
   body: z.object({
     currentPassword: z.string().min(6).max(50),
@@ -39,13 +63,49 @@ export const changePasswordSchema = z.object({
   })
 });
 
+export const expiredPasswordSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1),
+    newPassword: z.string().min(6).max(50)
+  })
+});
+
+// Two-factor authentication schemas
+export const twoFactorLoginSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1),
+    code: z.string().min(6).max(20)
+  })
+});
+
+export const twoFactorSetupSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1).optional()
+  })
+});
+
+export const twoFactorCodeSchema = z.object({
+  body: z.object({
+    code: z.string().min(6).max(20)
+  })
+});
+
+export const disableTwoFactorSchema = z.object({
+  body: z.object({
+    password: z.string().min(6).max(50),
+    code: z.string().min(6).max(20)
+  })
+});
+
 // Role schemas
 export const createRoleSchema = z.object({
   body: z.object({
     name: z.string().min(2).max(50),
     description: z.string().min(2),
     permissions: z.array(z.string()).optional(),
-    isDefault: z.boolean().optional()
+    parentRoles: z.array(z.string()).optional(),
+    isDefault: z.boolean().optional(),
+    requireTwoFactor: z.boolean().optional()
   })
 });
 
@@ -54,7 +114,9 @@ export const updateRoleSchema = z.object({
     name: z.string().min(2).max(50).optional(),
     description: z.string().min(2).optional(),
     permissions: z.array(z.string()).optional(),
-    isDefault: z.boolean().optional()
+    parentRoles: z.array(z.string()).optional(),
+    isDefault: z.boolean().optional(),
+    requireTwoFactor: z.boolean().optional()
   }),
   params: z.object({
     id: z.string()
@@ -67,6 +129,37 @@ export const roleIdSchema = z.object({
   })
 });
 
+export const simulateRoleSchema = z.object({
+  body: z.object({
+    permissions: z.array(z.string().regex(/^[a-z]+:[a-z]+$/, 'Permissions must look like resource:action')).optional()
+  }),
+  params: z.object({
+    id: z.string()
+  })
+});
+
+// Role documents produced by the role export
+const roleDocumentEntrySchema = z.object({
+  name: z.string().min(2).max(50),
+  description: z.string().min(2),
+  permissions: z.array(z.string().regex(/^[a-z]+:[a-z]+$/, 'Permissions must look like resource:action')).optional(),
+  parentRoles: z.array(z.string()).optional(),
+  isDefault: z.boolean().optional(),
+  requireTwoFactor: z.boolean().optional()
+});
+
+export const importRolesSchema = z.object({
+  body: z.object({
+    version: z.number().int(),
+    exportedAt: z.string().optional(),
+    roles: z.array(roleDocumentEntrySchema).min(1)
+  }),
+  query: z.object({
+    dryRun: z.enum(['true', 'false']).optional(),
+    prune: z.enum(['true', 'false']).optional()
+  })
+});
+
 export const rolePermissionsSchema = z.object({
   body: z.object({
     permissions: z.array(z.string())
@@ -76,19 +169,21 @@ export const rolePermissionsSchema = z.object({
   })
 });
 
-// Permission schemas
+// Permission schemas (resources and actions come from the permission registry)
+const permissionPartSchema = z.string().regex(/^[a-z]+$/, 'Only lowercase letters are allowed');
+
 export const createPermissionSchema = z.object({
   body: z.object({
-    name: z.enum(['create', 'read', 'update', 'delete', 'manage', 'approve', 'publish']),
-    resource: z.enum(['blogs', 'careers', 'applications', 'users', 'contacts', 'settings', 'roles', 'permissions', 'all']),
+    name: permissionPartSchema,
+    resource: permissionPartSchema,
     description: z.string().min(2)
   })
 });
 
 export const updatePermissionSchema = z.object({
   body: z.object({
-    name: z.enum(['create', 'read', 'update', 'delete', 'manage', 'approve', 'publish']).optional(),
-    resource: z.enum(['blogs', 'careers', 'applications', 'users', 'contacts', 'settings', 'roles', 'permissions', 'all']).optional(),
+    name: permissionPartSchema.optional(),
+    resource: permissionPartSchema.optional(),
     description: z.string().min(2).optional()
   }),
   params: z.object({
@@ -109,12 +204,34 @@ export const userIdSchema = z.object({
   })
 });
 
+// A role ID, or a role ID with the period the assignment is in effect
+const roleAssignmentSchema = z.union([
+  z.string(),
+  z.object({
+    role: z.string(),
+    startsAt: z.coerce.date().optional(),
+    expiresAt: z.coerce.date()
+      .refine(date => date.getTime() > Date.now(), 'expiresAt must be in the future')
+      .optional()
+  }).refine(
+    ({ startsAt, expiresAt }) => !startsAt || !expiresAt || startsAt < expiresAt,
+    { message: 'startsAt must be before expiresAt', path: ['startsAt'] }
+  )
+]);
+
 export const userRolesSchema = z.object({
   body: z.object({
-    roles: z.array(z.string())
+    roles: z.array(roleAssignmentSchema)
   }),
   params: z.object({
-    userId: z.string()
+    id: z.string()
+  })
+});
+
+export const bulkUserRolesSchema = z.object({
+  body: z.object({
+    userIds: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID')).min(1).max(500),
+    roles: z.array(roleAssignmentSchema).min(1)
   })
 });
 
@@ -124,22 +241,33 @@ export type LoginInput = z.infer<typeof loginSchema>['body'];
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>['body'];
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>['body'];
 export type ResetPasswordParams = z.infer<typeof resetPasswordSchema>['params'];
+export type VerifyEmailParams = z.infer<typeof verifyEmailSchema>['params'];
+export type ResendVerificationInput = z.infer<typeof resendVerificationSchema>['body'];
+export type MagicLinkRequestInput = z.infer<typeof magicLinkRequestSchema>['body'];
+export type MagicLinkLoginParams = z.infer<typeof magicLinkLoginSchema>['params'];
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>['body'];
+export type ExpiredPasswordInput = z.infer<typeof expiredPasswordSchema>['body'];
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>['body'];
+export type TwoFactorSetupInput = z.infer<typeof twoFactorSetupSchema>['body'];
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>['body'];
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>['body'];
 
 // Role types
 export type CreateRoleInput = z.infer<typeof createRoleSchema>['body'];
 export type UpdateRoleInput = z.infer<typeof updateRoleSchema>['body'];
 export type RoleIdParam = z.infer<typeof roleIdSchema>['params'];
 export type RolePermissionsInput = z.infer<typeof rolePermissionsSchema>['body'];
+export type SimulateRoleInput = z.infer<typeof simulateRoleSchema>['body'];
+export type ImportRolesInput = z.infer<typeof importRolesSchema>['body'];
+export type ImportRolesQuery = z.infer<typeof importRolesSchema>['query'];
 
 // Permission types
-export type PermissionName = 'create' | 'read' | 'update' | 'delete' | 'manage' | 'approve' | 'publish';
-export type ResourceName = 'blogs' | 'careers' | 'applications' | 'users' | 'contacts' | 'settings' | 'roles' | 'permissions' | 'all';
-
 export type CreatePermissionInput = z.infer<typeof createPermissionSchema>['body'];
 export type UpdatePermissionInput = z.infer<typeof updatePermissionSchema>['body'];
 export type PermissionIdParam = z.infer<typeof permissionIdSchema>['params'];
 
 // User role types
 export type UserIdParam = z.infer<typeof userIdSchema>['params'];
-export type UserRolesInput = z.infer<typeof userRolesSchema>['body'];
\ No newline at end of file
+export type UserRolesInput = z.infer<typeof userRolesSchema>['body'];
+export type RoleAssignmentInput = z.infer<typeof roleAssignmentSchema>;
+export type BulkUserRolesInput = z.infer<typeof bulkUserRolesSchema>['body'];
\ No newline at end of file
@@ -3,6 +3,9 @@ import { z } from 'zod';
 // Status enum
 export const BlogStatusEnum = z.enum([
     'draft',
+    'in_review',
+    'changes_requested',
+    'approved',
     'published',
     'archived'
 ]);
@@ -51,6 +54,10 @@ const blogBaseSchema = {
     }).optional(),
     relatedPosts: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid blog ID')).optional()
 };
+
+// Fields a blog's author sets directly; the validator lets unknown keys through, so
+// controllers copy only these (review and approval fields are set by the workflow)
+export const blogEditableFields = Object.keys(blogBaseSchema) as (keyof typeof blogBaseSchema)[];
 // Create blog schema
 export const createBlogSchema = z.object({
     body: z.object({
@@ -67,7 +74,10 @@ export const updateBlogSchema = z.object({
         ...Object.entries(blogBaseSchema).reduce((acc, [key, schema]) => {
             acc[key] = schema.optional();
             return acc;
-        }, {} as Record<string, any>)
+        }, {
+            // Stored on the revision created for this edit
+            changeNote: z.string().max(500, 'Change note cannot be more than 500 characters').optional()
+        } as Record<string, any>)
     })
 });
 
@@ -156,6 +166,84 @@ export const queryBlogSchema = z.object({
     })
 });
 
+// Revision schemas
+export const queryBlogRevisionsSchema = z.object({
+    params: z.object({
+        id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid blog ID')
+    }),
+    query: z.object({
+        page: z.string().regex(/^\d+$/).optional(),
+        limit: z.string().regex(/^\d+$/).optional()
+    })
+});
+
+export const getBlogRevisionSchema = z.object({
+    params: z.object({
+        id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid blog ID'),
+        number: z.string().regex(/^\d+$/, 'Invalid revision number')
+    })
+});
+
+// `to` defaults to the latest revision
+export const diffBlogRevisionsSchema = z.object({
+    params: z.object({
+        id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid blog ID')
+    }),
+    query: z.object({
+        from: z.string().regex(/^\d+$/, 'Invalid revision number'),
+        to: z.string().regex(/^\d+$/, 'Invalid revision number').optional()
+    })
+});
+
+export const restoreBlogRevisionSchema = z.object({
+    params: z.object({
+        id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid blog ID'),
+        number: z.string().regex(/^\d+$/, 'Invalid revision number')
+    }),
+    body: z.object({
+        changeNote: z.string().max(500, 'Change note cannot be more than 500 characters').optional()
+    }).optional()
+});
+
+// Editorial review schemas
+export const transitionBlogSchema = z.object({
+    params: z.object({
+        id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid blog ID')
+    }),
+    body: z.object({
+        status: BlogStatusEnum,
+        // Stored as a review comment, e.g. the changes being requested
+        comment: z.string().max(2000, 'Comment cannot be more than 2000 characters').optional()
+    })
+});
+
+export const assignReviewersSchema = z.object({
+    params: z.object({
+        id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid blog ID')
+    }),
+    body: z.object({
+        reviewers: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID')).max(10, 'A blog can have at most 10 reviewers')
+    })
+});
+
+export const createReviewCommentSchema = z.object({
+    params: z.object({
+        id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid blog ID')
+    }),
+    body: z.object({
+        body: z.string().min(1, 'Comment is required').max(2000, 'Comment cannot be more than 2000 characters')
+    })
+});
+
+export const queryReviewQueueSchema = z.object({
+    query: z.object({
+        status: z.enum(['in_review', 'changes_requested', 'approved']).optional(),
+        assigned: z.enum(['true', 'false']).optional(),
+        page: z.string().regex(/^\d+$/).optional(),
+        limit: z.string().regex(/^\d+$/).optional()
+    })
+});
+
 // Category schemas
 export const createCategorySchema = z.object({
     body: z.object({
@@ -205,6 +293,14 @@ export type BlogIdParam = z.infer<typeof getBlogSchema>['params'];
 export type BlogSlugParam = z.infer<typeof getBlogBySlugSchema>['params'];
 export type DeleteBlogParams = z.infer<typeof deleteBlogSchema>['params'];
 export type BlogQueryParams = z.infer<typeof queryBlogSchema>['query'];
+export type BlogRevisionsQuery = z.infer<typeof queryBlogRevisionsSchema>['query'];
+export type BlogRevisionParams = z.infer<typeof getBlogRevisionSchema>['params'];
+export type BlogRevisionDiffQuery = z.infer<typeof diffBlogRevisionsSchema>['query'];
+export type RestoreBlogRevisionInput = NonNullable<z.infer<typeof restoreBlogRevisionSchema>['body']>;
+export type TransitionBlogInput = z.infer<typeof transitionBlogSchema>['body'];
+export type AssignReviewersInput = z.infer<typeof assignReviewersSchema>['body'];
+export type CreateReviewCommentInput = z.infer<typeof createReviewCommentSchema>['body'];
+export type ReviewQueueQuery = z.infer<typeof queryReviewQueueSchema>['query'];
 
 // Category Types
 export type CreateCategoryInput = z.infer<typeof createCategorySchema>['body'];
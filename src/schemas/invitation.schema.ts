@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+export const inviteUserSchema = z.object({
+  body: z.object({
+    email: z.string().email('Please enter a valid email address'),
+    name: z.string().min(2, 'Name must be at least 2 characters').max(50),
+    roles: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid role ID')).optional()
+  })
+});
+
+export const queryInvitationsSchema = z.object({
+  query: z.object({
+    status: z.enum(['pending', 'accepted', 'revoked', 'expired']).optional(),
+    email: z.string().optional(),
+    page: z.string().regex(/^\d+$/).optional(),
+    limit: z.string().regex(/^\d+$/).optional()
+  })
+});
+
+export const invitationIdSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid invitation ID')
+  })
+});
+
+// Public schemas for the invitee
+export const invitationTokenSchema = z.object({
+  params: z.object({
+    token: z.string()
+  })
+});
+
+export const acceptInvitationSchema = z.object({
+  body: z.object({
+    password: z.string().min(6).max(50)
+  }),
+  params: z.object({
+    token: z.string()
+  })
+});
+
+export type InviteUserInput = z.infer<typeof inviteUserSchema>['body'];
+export type InvitationsQuery = z.infer<typeof queryInvitationsSchema>['query'];
+export type InvitationIdParams = z.infer<typeof invitationIdSchema>['params'];
+export type InvitationTokenParams = z.infer<typeof invitationTokenSchema>['params'];
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>['body'];
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+export const oidcProviderSchema = z.object({
+  params: z.object({
+    provider: z.string().regex(/^[a-z0-9-]+$/, 'Invalid provider')
+  })
+});
+
+export const oidcCallbackSchema = z.object({
+  params: z.object({
+    provider: z.string().regex(/^[a-z0-9-]+$/, 'Invalid provider')
+  }),
+  query: z.object({
+    code: z.string().optional(),
+    state: z.string().optional(),
+    error: z.string().optional(),
+    error_description: z.string().optional()
+  })
+});
+
+export const oidcCompleteSchema = z.object({
+  body: z.object({
+    ticket: z.string().min(1)
+  })
+});
+
+export type OidcProviderParams = z.infer<typeof oidcProviderSchema>['params'];
+export type OidcCallbackQuery = z.infer<typeof oidcCallbackSchema>['query'];
+export type OidcCompleteInput = z.infer<typeof oidcCompleteSchema>['body'];
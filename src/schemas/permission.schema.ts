@@ -12,5 +12,14 @@ import z from "zod";
   });
   
 
+  export const explainPermissionSchema = z.object({
+    query: z.object({
+        userId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID'),
+        permission: z.string().regex(/^[a-z]+:[a-z]+$/, 'Permission must look like resource:action'),
+        includeRoutes: z.enum(['true', 'false']).optional()
+    })
+  });
+
   export type PermissionsQueryParams = z.infer<typeof queryPermissionSchema>['query'];
+  export type ExplainPermissionQuery = z.infer<typeof explainPermissionSchema>['query'];
   
\ No newline at end of file
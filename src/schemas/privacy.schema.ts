@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+const subjectBody = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  // Ticket or request number the action answers
+  reference: z.string().max(200).optional()
+});
+
+export const privacySubjectSchema = z.object({
+  body: subjectBody
+});
+
+export const eraseSubjectSchema = z.object({
+  body: subjectBody.extend({
+    confirmEmail: z.string()
+  }).refine(body => body.confirmEmail.trim().toLowerCase() === body.email.trim().toLowerCase(), {
+    message: 'confirmEmail must repeat the email address being erased',
+    path: ['confirmEmail']
+  })
+});
+
+export const queryPrivacyRequestsSchema = z.object({
+  query: z.object({
+    type: z.enum(['export', 'erasure']).optional(),
+    page: z.string().regex(/^\d+$/).optional(),
+    limit: z.string().regex(/^\d+$/).optional()
+  })
+});
+
+export type PrivacySubjectInput = z.infer<typeof privacySubjectSchema>['body'];
+export type EraseSubjectInput = z.infer<typeof eraseSubjectSchema>['body'];
+export type PrivacyRequestsQuery = z.infer<typeof queryPrivacyRequestsSchema>['query'];
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+// Empty strings clear a field
+const optionalUrl = z.union([z.string().url('Please enter a valid URL'), z.literal('')]).optional();
+
+// Multipart requests send every field as a string
+const formBoolean = z.union([z.boolean(), z.enum(['true', 'false'])]);
+
+export const updateProfileSchema = z.object({
+  body: z.object({
+    bio: z.string().max(1000, 'Bio cannot be more than 1000 characters').optional(),
+    jobTitle: z.string().max(100, 'Job title cannot be more than 100 characters').optional(),
+    slug: z.string()
+      .min(3, 'Slug must be at least 3 characters')
+      .max(60, 'Slug cannot be more than 60 characters')
+      .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and dashes')
+      .optional(),
+    socialLinks: z.object({
+      website: optionalUrl,
+      twitter: optionalUrl,
+      linkedin: optionalUrl,
+      github: optionalUrl
+    }).optional(),
+    removeAvatar: formBoolean.optional()
+  })
+});
+
+export const authorSlugSchema = z.object({
+  params: z.object({
+    slug: z.string().min(1)
+  }),
+  query: z.object({
+    page: z.string().regex(/^\d+$/).optional(),
+    limit: z.string().regex(/^\d+$/).optional()
+  })
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>['body'];
+export type AuthorSlugParams = z.infer<typeof authorSlugSchema>['params'];
+export type AuthorBlogsQuery = z.infer<typeof authorSlugSchema>['query'];
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// Schema for the caller's own session operations
+export const sessionIdSchema = z.object({
+  params: z.object({
+    sessionId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid session ID')
+  })
+});
+
+// Schema for admin operations on another user's sessions
+export const userSessionsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID')
+  })
+});
+
+export const userSessionIdSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID'),
+    sessionId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid session ID')
+  })
+});
+
+export type SessionIdParams = z.infer<typeof sessionIdSchema>['params'];
+export type UserSessionsParams = z.infer<typeof userSessionsSchema>['params'];
+export type UserSessionIdParams = z.infer<typeof userSessionIdSchema>['params'];
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export const updateAuthSettingsSchema = z.object({
+  body: z.object({
+    requireEmailVerification: z.boolean().optional(),
+    invitationExpiryHours: z.number().int().min(1).max(720).optional()
+  })
+});
+
+export const updatePasswordPolicySchema = z.object({
+  body: z.object({
+    minLength: z.number().int().min(6).max(50).optional(),
+    requireUppercase: z.boolean().optional(),
+    requireLowercase: z.boolean().optional(),
+    requireNumber: z.boolean().optional(),
+    requireSymbol: z.boolean().optional(),
+    disallowPersonalInfo: z.boolean().optional(),
+    blockCommonPasswords: z.boolean().optional(),
+    historySize: z.number().int().min(0).max(24).optional(),
+    maxAgeDays: z.number().int().min(0).optional()
+  })
+});
+
+export type UpdateAuthSettingsInput = z.infer<typeof updateAuthSettingsSchema>['body'];
+export type UpdatePasswordPolicyInput = z.infer<typeof updatePasswordPolicySchema>['body'];
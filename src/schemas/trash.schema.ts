@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const queryTrashSchema = z.object({
+  query: z.object({
+    page: z.string().regex(/^\d+$/).optional(),
+    limit: z.string().regex(/^\d+$/).optional()
+  })
+});
+
+export const restoreSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID')
+  })
+});
+
+export type TrashQuery = z.infer<typeof queryTrashSchema>['query'];
+export type RestoreParams = z.infer<typeof restoreSchema>['params'];
@@ -51,6 +51,25 @@ export const createUserSchema = z.object({
     })
 });
 
+// Schema for a user created in bulk or imported from CSV; invited users choose their own password
+export const bulkUserSchema = createUserSchema.shape.body.omit({ password: true });
+
+// Rows are validated one by one with bulkUserSchema so every row gets its own result
+export const bulkCreateUsersSchema = z.object({
+    body: z.object({
+        users: z.array(z.record(z.unknown())).min(1, 'At least one user is required').max(500, 'At most 500 users per request')
+    })
+});
+
+// Schema for operations on many users at once
+export const bulkUserIdsSchema = z.object({
+    body: z.object({
+        userIds: z.array(
+            z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID')
+        ).min(1, 'At least one user is required').max(500, 'At most 500 users per request')
+    })
+});
+
 // Schema for updating a user
 export const updateUserSchema = z.object({
     params: z.object({
@@ -100,6 +119,15 @@ export interface UserRolesRequest {
 // Type for create user body
 export type CreateUserBody = z.infer<typeof createUserSchema>['body'];
 
+// Type for a bulk created user
+export type BulkUserInput = z.infer<typeof bulkUserSchema>;
+
+// Type for bulk create body
+export type BulkCreateUsersBody = z.infer<typeof bulkCreateUsersSchema>['body'];
+
+// Type for bulk user IDs body
+export type BulkUserIdsBody = z.infer<typeof bulkUserIdsSchema>['body'];
+
 // Type for update user body
 export type UpdateUserBody = z.infer<typeof updateUserSchema>['body'];
 
@@ -0,0 +1,62 @@
+import { Inquiry, User } from '@/models';
+import logger from '@/utils/logger';
+
+// Sample inquiries for testing
+const sampleInquiries = [
+  {
+    name: 'John Smith',
+    email: 'john.smith@example.com',
+    phone: '+1234567890',
+    subject: 'Website Development Inquiry',
+    message:
+      "Hello, I'm interested in your web development services. Could you please provide more information about your packages and pricing? Thank you.",
+    status: 'new',
+    createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) // 7 days ago
+  },
+  {
+    name: 'Jane Doe',
+    email: 'jane.doe@example.com',
+    phone: '+9876543210',
+    subject: 'Marketing Services',
+    message:
+      'I would like to discuss your marketing services for my new startup. Please contact me at your earliest convenience.',
+    status: 'in-process',
+    notes: 'Called back on June 23, scheduled meeting for next week',
+    assignedTo: 'admin@example.com',
+    createdAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000) // 14 days ago
+  },
+  {
+    name: 'Robert Johnson',
+    email: 'robert.johnson@example.com',
+    subject: 'SEO Consultation',
+    message: "I need help improving my website's search engine rankings. What SEO services do you offer?",
+    status: 'closed',
+    notes: 'Client signed up for our monthly SEO package',
+    assignedTo: 'bizdev@example.com',
+    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) // 30 days ago
+  }
+];
+
+/**
+ * Sample data for local development. Existing inquiries are only
+ * replaced when CLEAR_INQUIRIES=true.
+ */
+const seedDev = async (): Promise<void> => {
+  if (process.env.CLEAR_INQUIRIES === 'true') {
+    await Inquiry.deleteMany();
+  } else if ((await Inquiry.countDocuments()) > 0) {
+    logger.info('Inquiries already exist, skipping sample inquiries');
+    return;
+  }
+
+  const assignees = await User.find({ email: { $in: sampleInquiries.map(inquiry => inquiry.assignedTo).filter(Boolean) } }, 'email');
+  const assigneeIds = new Map(assignees.map(user => [user.email, user._id]));
+
+  await Inquiry.create(sampleInquiries.map(({ assignedTo, ...inquiry }) => ({
+    ...inquiry,
+    assignedTo: assignedTo && assigneeIds.get(assignedTo)
+  })));
+  logger.info(`Created ${sampleInquiries.length} sample inquiries`);
+};
+
+export default seedDev;
@@ -0,0 +1,8 @@
+import seedDev from './dev';
+
+// Seeders by environment name, run with `seed --env <name>`
+const seeds: Record<string, () => Promise<void>> = {
+  dev: seedDev
+};
+
+export default seeds;
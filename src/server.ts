@@ -6,7 +6,6 @@ import cookieParser from 'cookie-parser';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import express, { Express, Request, Response } from 'express';
-import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import mongoose from 'mongoose';
 import morgan from 'morgan';
@@ -14,8 +13,11 @@ import path from 'path';
 import { createLogger, format, transports } from 'winston';
 import { corsOptions } from '@/config/cors';
 import { initializeSocket } from './socket';
+import { syncPermissions } from '@/utils/permission-registry';
+import { startRoleExpirySweep } from '@/utils/role-expiry';
+import { startTrashPurge } from '@/utils/trash-retention';
+import { getPendingMigrations } from '@/utils/migrator';
 import http from "http";
-// import "./utils/seed"
 dotenv.config();
 
 const app: Express = express();
@@ -62,8 +64,22 @@ app.use(express.urlencoded({ extended: true }));
 app.use(morgan('dev'));
 
 mongoose.connect(MONGODB_URI)
-  .then(() => {
+  .then(async () => {
     logger.info('Connected to MongoDB');
+
+    const pending = await getPendingMigrations().catch(() => []);
+    if (pending.length > 0) {
+      logger.warn(`${pending.length} pending migration(s), run \`npm run migrate -- up\``);
+    }
+
+    // Create the permissions registered by the route modules that are not stored yet
+    await syncPermissions().catch((error) => logger.error('Permission sync failed:', error));
+
+    // Remove temporary role assignments once they expire
+    startRoleExpirySweep();
+
+    // Permanently delete documents left in the trash past the retention period
+    startTrashPurge();
   })
   .catch((error) => {
     logger.error('MongoDB connection error:', error);
@@ -1,11 +1,15 @@
+import Session from "@/models/session.model";
 import type { IUser } from "@/models/user.model";
 import User from "@/models/user.model";
 import type { Server as HttpServer } from "http";
+import type { Types } from "mongoose";
 import { Server, type Socket } from "socket.io";
+import { getUserAccess } from "./utils/permission-cache";
 import { verifyAccessToken } from "./utils/token";
 
 interface AuthenticatedSocket extends Socket {
   user?: IUser;
+  sessionId?: string;
 }
 
 // Map to store active connections by user ID
@@ -47,6 +51,16 @@ export const initializeSocket = (httpServer: HttpServer) => {
         return next(new Error("Authentication error: Invalid token"));
       }
 
+      // Sockets of a revoked session must not reconnect
+      if (decoded.sessionId) {
+        const session = await Session.findOne({ _id: decoded.sessionId, revokedAt: null });
+        if (!session) {
+          console.log(`[Socket.IO][${socketId}] Authentication failed - session revoked`);
+          return next(new Error("Authentication error: Session revoked"));
+        }
+        socket.sessionId = decoded.sessionId;
+      }
+
       // Get user from database
       console.log(`[Socket.IO][${socketId}] Fetching user from database...`);
       const user = await User.findById(decoded.userId).populate({
@@ -58,6 +72,9 @@ export const initializeSocket = (httpServer: HttpServer) => {
         return next(new Error("Authentication error: User not found"));
       }
 
+      // Compile the user's roles, including inherited ones, for role based notifications
+      user.$locals.access = await getUserAccess(user._id as Types.ObjectId, user.getActiveRoleIds());
+
       // Attach user to socket
       socket.user = user;
       console.log(`[Socket.IO][${socketId}] Authentication successful for user:`, {
@@ -153,15 +170,8 @@ export const notifyRoles = (roles: string[], event: string, data: any) => {
     const socket = sockets[0];
 
     if (socket && socket.user) {
-      // Check if user has any of the specified roles
-      const hasRole = roles.some((role) => {
-        if (socket.user && socket.user.roles) {
-          return socket.user.roles.some(
-            (userRole: any) => userRole.name === role || (typeof userRole === "object" && userRole.name === role),
-          );
-        }
-        return false;
-      });
+      // Check if user has any of the specified roles, directly or through inheritance
+      const hasRole = roles.some((role) => socket.user!.hasRole(role));
 
       if (hasRole) {
         console.log(`[Socket.IO] User ${userId} has required role. Sending event to ${sockets.length} sockets`);
@@ -177,4 +187,30 @@ export const notifyRoles = (roles: string[], event: string, data: any) => {
   }
 
   console.log('[Socket.IO] Notification process completed');
-};
\ No newline at end of file
+};
+
+// Function to send notification to specific users, on every socket they have open
+export const notifyUsers = (userIds: (string | Types.ObjectId)[], event: string, data: any) => {
+  const recipients = new Set(userIds.map((id) => id.toString()));
+  console.log(`[Socket.IO] Notifying ${recipients.size} users with event: ${event}`);
+
+  for (const userId of recipients) {
+    const sockets = activeConnections.get(userId) || [];
+    sockets.forEach((s) => s.emit(event, data));
+  }
+};
+
+// Function to disconnect every socket opened with one of the given sessions
+export const disconnectSessions = (sessionIds: string[]) => {
+  if (sessionIds.length === 0) return;
+
+  for (const sockets of activeConnections.values()) {
+    sockets
+      .filter((s) => s.sessionId && sessionIds.includes(s.sessionId))
+      .forEach((s) => {
+        console.log(`[Socket.IO] Disconnecting socket ${s.id} of revoked session ${s.sessionId}`);
+        s.emit("session:revoked");
+        s.disconnect(true);
+      });
+  }
+};
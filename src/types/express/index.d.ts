@@ -1,4 +1,6 @@
+import { IApiKey } from '@/models/api-key.model';
 import { IUser } from '@/models/user.model';
+import { CompiledAccess } from '@/utils/permission-cache';
 import { Multer } from 'multer';
 
 declare global {
@@ -20,6 +22,26 @@ declare global {
        * Authenticated user (from your auth middleware)
        */
       user?: IUser;
+
+      /**
+       * Compiled roles and permissions of `user` (from your auth middleware)
+       */
+      access?: CompiledAccess;
+
+      /**
+       * Session the access token was issued for (from your auth middleware)
+       */
+      sessionId?: string;
+
+      /**
+       * API key the request was authenticated with (from your auth middleware)
+       */
+      apiKey?: IApiKey;
+
+      /**
+       * Admin acting as `user` during an impersonated session (from your auth middleware)
+       */
+      impersonator?: IUser;
     }
   }
 }
\ No newline at end of file
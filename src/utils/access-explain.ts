@@ -0,0 +1,86 @@
+import { accessAllows, CompiledAccess } from '@/utils/permission-cache';
+import { resolveEffectivePermissions, resolveInheritancePaths, RoleNode } from '@/utils/role-hierarchy';
+import { listRoutes, RouteInfo } from '@/utils/route-catalog';
+
+// The ways a permission can be granted, in the order `requirePermission` checks them
+export type GrantReason = 'superadmin' | 'direct' | 'manage' | 'all_manage';
+
+export interface PermissionGrant {
+  reason: GrantReason;
+  // Assigned role the grant comes through
+  role: string;
+  // Role holding the permission (or SuperAdmin), with the inheritance path leading to it
+  grantedBy: string;
+  path: string[];
+  // Permission code that matched
+  matched: string | null;
+}
+
+export interface PermissionExplanation {
+  permission: string;
+  granted: boolean;
+  reason: GrantReason | null;
+  grants: PermissionGrant[];
+}
+
+const REASON_ORDER: GrantReason[] = ['superadmin', 'direct', 'manage', 'all_manage'];
+
+/**
+ * Explain whether a set of assigned roles grants a permission, listing every grant
+ */
+export const explainPermission = (
+  graph: Map<string, RoleNode>,
+  roleIds: string[],
+  permission: string
+): PermissionExplanation => {
+  const [resource] = permission.split(':');
+  const candidates: [string, GrantReason][] = [
+    [permission, 'direct'],
+    [`${resource}:manage`, 'manage'],
+    ['all:manage', 'all_manage']
+  ];
+  const grants: PermissionGrant[] = [];
+
+  for (const roleId of roleIds) {
+    const role = graph.get(roleId);
+    if (!role) continue;
+
+    for (const [id, path] of resolveInheritancePaths(graph, roleId)) {
+      const inherited = graph.get(id)!;
+      if (inherited.name === 'SuperAdmin') {
+        grants.push({ reason: 'superadmin', role: role.name, grantedBy: inherited.name, path, matched: null });
+      }
+    }
+
+    const effective = resolveEffectivePermissions(graph, roleId);
+    for (const [code, reason] of candidates) {
+      const entry = effective.find(candidate => candidate.code === code);
+      entry?.sources.forEach(source => grants.push({
+        reason,
+        role: role.name,
+        grantedBy: source.role,
+        path: source.path,
+        matched: code
+      }));
+    }
+  }
+
+  grants.sort((a, b) => REASON_ORDER.indexOf(a.reason) - REASON_ORDER.indexOf(b.reason));
+
+  return {
+    permission,
+    granted: grants.length > 0,
+    reason: grants[0]?.reason || null,
+    grants
+  };
+};
+
+/**
+ * List the routes an authenticated caller with this access could call
+ */
+export const listAccessibleRoutes = (access: CompiledAccess): RouteInfo[] => {
+  return listRoutes().filter(route =>
+    route.permissions.every(group => group.some(permission => accessAllows(access, permission))) &&
+    route.roles.every(group => access.isSuperAdmin || group.some(role => access.roles.has(role)))
+  );
+};
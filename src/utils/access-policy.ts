@@ -0,0 +1,84 @@
+import { accessPolicies, PolicyConditionValue } from '@/config/access-policies';
+import { permissionSetAllows } from '@/utils/permission-cache';
+import { Request } from 'express';
+import { Document, Types } from 'mongoose';
+
+type PolicyConditions = Record<string, PolicyConditionValue>;
+
+const resolveValue = (value: string | number | boolean, userId: Types.ObjectId): unknown => {
+  return value === '$user' ? userId : value;
+};
+
+/**
+ * Get the conditions narrowing a permission for the requesting user, one set per
+ * restricting rule (any may match), or null when the user is not restricted
+ */
+const getApplicableConditions = (req: Request<any, any, any, any>, permission: string): PolicyConditions[] | null => {
+  const access = req.access;
+  if (!req.user || !access || access.isSuperAdmin) return null;
+
+  const conditions: PolicyConditions[] = [];
+  for (const [roleName, permissions] of access.roleGrants) {
+    if (!permissionSetAllows(permissions, permission)) continue;
+
+    const rules = accessPolicies.filter(rule => rule.permission === permission && rule.roles.includes(roleName));
+
+    // One role granting the permission without conditions is enough
+    if (rules.length === 0) return null;
+    conditions.push(...rules.map(rule => rule.conditions));
+  }
+
+  return conditions.length > 0 ? conditions : null;
+};
+
+/**
+ * Build a MongoDB filter matching the documents the requesting user may access
+ * with a permission, or null when no rule restricts them
+ * (whether the permission is held at all is left to `requirePermission`)
+ */
+export const getAccessFilter = (req: Request<any, any, any, any>, permission: string): Record<string, any> | null => {
+  const conditions = getApplicableConditions(req, permission);
+  if (!conditions) return null;
+
+  const userId = req.user!._id as Types.ObjectId;
+  return {
+    $or: conditions.map(set => Object.fromEntries(
+      Object.entries(set).map(([field, value]) => [
+        field,
+        Array.isArray(value) ? { $in: value.map(v => resolveValue(v, userId)) } : resolveValue(value, userId)
+      ])
+    ))
+  };
+};
+
+/**
+ * Narrow a find query or `$match` stage to the documents the requesting user may access
+ */
+export const withAccessFilter = <T extends Record<string, any>>(
+  req: Request<any, any, any, any>,
+  permission: string,
+  query: T
+): T => {
+  const filter = getAccessFilter(req, permission);
+  if (!filter) return query;
+
+  return { ...query, $and: [...(query.$and || []), filter] };
+};
+
+/**
+ * Check whether the requesting user may use a permission on a loaded document
+ */
+export const canAccessDocument = (req: Request<any, any, any, any>, permission: string, doc: Document): boolean => {
+  const conditions = getApplicableConditions(req, permission);
+  if (!conditions) return true;
+
+  const userId = req.user!._id as Types.ObjectId;
+  return conditions.some(set => Object.entries(set).every(([field, value]) => {
+    // Populated references are compared by their ID
+    const actual = doc.get(field);
+    const actualValue = String(actual?._id ?? actual);
+
+    const expected = Array.isArray(value) ? value : [value];
+    return expected.some(v => String(resolveValue(v, userId)) === actualValue);
+  }));
+};
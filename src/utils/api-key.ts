@@ -0,0 +1,53 @@
+import ApiKey, { IApiKey } from '@/models/api-key.model';
+import { hashToken } from '@/utils/token';
+import crypto from 'crypto';
+
+// Recognisable prefix so leaked keys are easy to spot (e.g. by secret scanners)
+const API_KEY_PREFIX = 'pk_';
+const API_KEY_DISPLAY_LENGTH = 11;
+
+// How often lastUsedAt is written while a key is in use
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Generate a new random API key together with its display prefix and hash
+ */
+export const generateApiKey = (): { key: string; prefix: string; keyHash: string } => {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  return {
+    key,
+    prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+    keyHash: hashToken(key)
+  };
+};
+
+/**
+ * Look up an active API key by its plain value and record its use
+ * Returns null for unknown, revoked or expired keys
+ */
+export const authenticateApiKey = async (key: string, ipAddress: string | null): Promise<IApiKey | null> => {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const apiKey = await ApiKey.findOne({ keyHash: hashToken(key), revokedAt: null });
+
+  if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    apiKey.lastUsedAt = new Date();
+    apiKey.lastUsedIp = ipAddress;
+    await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: apiKey.lastUsedAt, lastUsedIp: ipAddress });
+  }
+
+  return apiKey;
+};
+
+/**
+ * Check whether a key's scopes cover a permission code, honouring `resource:manage` and `all:manage`
+ */
+export const scopesAllow = (scopes: string[], permission: string): boolean => {
+  const [resource] = permission.split(':');
+  return scopes.includes(permission) || scopes.includes(`${resource}:manage`) || scopes.includes('all:manage');
+};
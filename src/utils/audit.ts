@@ -0,0 +1,53 @@
+import AuditLog from '@/models/audit-log.model';
+import logger from '@/utils/logger';
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+
+export interface AuditEntry {
+  actor: string | Types.ObjectId | null;
+  onBehalfOf?: string | Types.ObjectId | null;
+  action: string;
+  targetType?: string;
+  targetId?: string | Types.ObjectId;
+  statusCode?: number;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Write an audit log entry. Failures are logged but never fail the request.
+ */
+export const recordAudit = async (entry: AuditEntry, req?: Request): Promise<void> => {
+  try {
+    await AuditLog.create({
+      actor: entry.actor,
+      onBehalfOf: entry.onBehalfOf || null,
+      action: entry.action,
+      targetType: entry.targetType || null,
+      targetId: entry.targetId ? entry.targetId.toString() : null,
+      statusCode: entry.statusCode ?? null,
+      metadata: entry.metadata || {},
+      ...(req && {
+        method: req.method,
+        path: req.originalUrl,
+        ipAddress: req.ip || null,
+        userAgent: req.get('user-agent') || null
+      })
+    });
+  } catch (error) {
+    logger.error(`Failed to record audit entry ${entry.action}:`, error);
+  }
+};
+
+/**
+ * Log a request made during an impersonated session against the real admin once it has finished
+ */
+export const auditImpersonatedRequest = (req: Request, res: Response): void => {
+  res.on('finish', () => {
+    void recordAudit({
+      actor: req.impersonator!._id as Types.ObjectId,
+      onBehalfOf: req.user!._id as Types.ObjectId,
+      action: 'impersonation.request',
+      statusCode: res.statusCode
+    }, req);
+  });
+};
@@ -0,0 +1,167 @@
+import { BlogRevision } from '@/models';
+import { IBlog } from '@/models/blog.model';
+import { IBlogRevision } from '@/models/blog-revision.model';
+import { diffLines, DiffHunk } from '@/utils/text-diff';
+import { Types } from 'mongoose';
+
+// Pruning policy: the newest revisions of each blog are kept up to the limit, and
+// with a maximum age set, older revisions are dropped too (the newest one always stays)
+const REVISION_LIMIT = Number(process.env.BLOG_REVISION_LIMIT) || 50;
+const REVISION_MAX_AGE_DAYS = Number(process.env.BLOG_REVISION_MAX_AGE_DAYS) || 0;
+
+// Numbers are assigned by reading the latest one, so concurrent edits may collide and retry
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+export interface BlogSnapshot {
+  title: string;
+  content: string;
+  contentType: IBlog['contentType'];
+  excerpt: string;
+  seo: IBlog['seo'];
+}
+
+export interface BlogChange {
+  changeNote?: string | null;
+  restoredFrom?: number | null;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+const TRACKED_FIELDS: (keyof BlogSnapshot)[] = ['title', 'content', 'contentType', 'excerpt', 'seo'];
+
+/**
+ * The fields of a blog (or revision) that revisions track
+ */
+export const snapshotBlog = (blog: IBlog | IBlogRevision): BlogSnapshot => ({
+  title: blog.title,
+  content: blog.content,
+  contentType: blog.contentType,
+  excerpt: blog.excerpt,
+  seo: {
+    metaTitle: blog.seo?.metaTitle,
+    metaDescription: blog.seo?.metaDescription,
+    keywords: [...(blog.seo?.keywords || [])],
+    ogImage: blog.seo?.ogImage
+  }
+});
+
+/**
+ * Names of the tracked fields that differ between two snapshots
+ */
+export const getChangedFields = (before: BlogSnapshot, after: BlogSnapshot): string[] => {
+  return TRACKED_FIELDS.filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+};
+
+const pruneRevisions = async (blogId: Types.ObjectId): Promise<void> => {
+  const oldestKept = await BlogRevision.findOne({ blog: blogId })
+    .sort('-number')
+    .skip(REVISION_LIMIT - 1)
+    .select('number');
+  if (oldestKept) {
+    await BlogRevision.deleteMany({ blog: blogId, number: { $lt: oldestKept.number } });
+  }
+
+  if (REVISION_MAX_AGE_DAYS > 0) {
+    const latest = await BlogRevision.findOne({ blog: blogId }).sort('-number').select('number');
+    const cutoff = new Date(Date.now() - REVISION_MAX_AGE_DAYS * 24 * 60 * 60 * 1000);
+    await BlogRevision.deleteMany({ blog: blogId, number: { $lt: latest!.number }, createdAt: { $lt: cutoff } });
+  }
+};
+
+const createRevision = async (
+  blogId: Types.ObjectId,
+  snapshot: BlogSnapshot,
+  fields: Partial<IBlogRevision>
+): Promise<IBlogRevision> => {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await BlogRevision.findOne({ blog: blogId }).sort('-number').select('number');
+
+    try {
+      return await BlogRevision.create({
+        blog: blogId,
+        number: (latest?.number || 0) + 1,
+        ...snapshot,
+        ...fields
+      });
+    } catch (error: any) {
+      if (error?.code !== 11000 || attempt >= MAX_NUMBERING_ATTEMPTS) throw error;
+    }
+  }
+};
+
+/**
+ * Store the first revision of a newly created blog
+ */
+export const recordInitialRevision = async (blog: IBlog, authorId: Types.ObjectId | null): Promise<IBlogRevision> => {
+  return createRevision(blog._id as Types.ObjectId, snapshotBlog(blog), { author: authorId, changeNote: 'Created' });
+};
+
+/**
+ * Store a revision for an edit when any tracked field changed. Blogs written before revisions
+ * existed first get their previous state stored, so the edit can be diffed and undone.
+ * Returns null when nothing tracked changed.
+ */
+export const recordBlogChange = async (
+  blog: IBlog,
+  previous: BlogSnapshot,
+  authorId: Types.ObjectId,
+  { changeNote = null, restoredFrom = null }: BlogChange = {}
+): Promise<IBlogRevision | null> => {
+  const current = snapshotBlog(blog);
+  const changedFields = getChangedFields(previous, current);
+  if (changedFields.length === 0) return null;
+
+  const blogId = blog._id as Types.ObjectId;
+
+  if (!(await BlogRevision.exists({ blog: blogId }))) {
+    await createRevision(blogId, previous, {
+      author: blog.author instanceof Types.ObjectId ? blog.author : (blog.author?._id as Types.ObjectId) || null,
+      changeNote: 'Version before revision history'
+    });
+  }
+
+  const revision = await createRevision(blogId, current, { author: authorId, changedFields, changeNote, restoredFrom });
+  await pruneRevisions(blogId);
+
+  return revision;
+};
+
+/**
+ * Compare two revisions: the changed plain fields with their old and new values,
+ * and a line diff of the content
+ */
+export const diffRevisions = (
+  from: IBlogRevision,
+  to: IBlogRevision
+): { fields: FieldChange[]; content: { hunks: DiffHunk[]; added: number; removed: number } } => {
+  const before = snapshotBlog(from);
+  const after = snapshotBlog(to);
+
+  const fields: FieldChange[] = [];
+  for (const field of ['title', 'contentType', 'excerpt'] as const) {
+    if (before[field] !== after[field]) fields.push({ field, from: before[field], to: after[field] });
+  }
+  for (const field of ['metaTitle', 'metaDescription', 'keywords', 'ogImage'] as const) {
+    if (JSON.stringify(before.seo[field]) !== JSON.stringify(after.seo[field])) {
+      fields.push({ field: `seo.${field}`, from: before.seo[field] ?? null, to: after.seo[field] ?? null });
+    }
+  }
+
+  const hunks = diffLines(before.content, after.content);
+  const count = (type: DiffHunk['type']) => hunks
+    .filter(hunk => hunk.type === type)
+    .reduce((total, hunk) => total + hunk.lines.length, 0);
+
+  return {
+    fields,
+    content: {
+      hunks,
+      added: count('added'),
+      removed: count('removed')
+    }
+  };
+};
@@ -0,0 +1,185 @@
+import { requestHasPermission } from '@/middleware/permission.middlware';
+import { BlogReviewComment, User } from '@/models';
+import { IBlog } from '@/models/blog.model';
+import { IUser } from '@/models/user.model';
+import { BlogStatus } from '@/schemas/blog.schema';
+import { notifyRoles, notifyUsers } from '@/socket';
+import { ApiError } from '@/types';
+import { canAccessDocument } from '@/utils/access-policy';
+import { sendBlogReviewEmail } from '@/utils/email';
+import logger from '@/utils/logger';
+import { Request } from 'express';
+import { Types } from 'mongoose';
+
+/**
+ * Editorial state machine: the status changes allowed from each status,
+ * with the permission each change needs
+ */
+export const BLOG_TRANSITIONS: Record<BlogStatus, Partial<Record<BlogStatus, string>>> = {
+  draft: { in_review: 'blogs:update' },
+  in_review: { approved: 'blogs:approve', changes_requested: 'blogs:approve', draft: 'blogs:update' },
+  changes_requested: { in_review: 'blogs:update', draft: 'blogs:update' },
+  approved: { published: 'blogs:publish', changes_requested: 'blogs:approve', draft: 'blogs:update' },
+  published: { archived: 'blogs:publish', draft: 'blogs:publish' },
+  archived: { published: 'blogs:publish', draft: 'blogs:update' }
+};
+
+export const REVIEW_STATUSES: BlogStatus[] = ['in_review', 'changes_requested', 'approved'];
+
+// Statuses a blog can be created with, anything further goes through review
+export const INITIAL_STATUSES: BlogStatus[] = ['draft', 'in_review'];
+
+const STATUS_LABELS: Record<BlogStatus, string> = {
+  draft: 'draft',
+  in_review: 'in review',
+  changes_requested: 'changes requested',
+  approved: 'approved',
+  published: 'published',
+  archived: 'archived'
+};
+
+// Roles told about blogs submitted for review before any reviewer is assigned
+const UNASSIGNED_REVIEW_ROLES = ['SuperAdmin', 'Admin', 'ContentManager'];
+
+const idOf = (ref: unknown): string => String((ref as { _id?: unknown })?._id ?? ref);
+
+/**
+ * Check that the requesting user may move a blog to a status, throwing when the
+ * transition doesn't exist or they lack its permission. Reviews (approving or requesting
+ * changes) are limited to the assigned reviewers, and never by the author.
+ */
+export const assertTransition = (req: Request<any, any, any, any>, blog: IBlog, to: BlogStatus): void => {
+  const permission = BLOG_TRANSITIONS[blog.status]?.[to];
+  if (!permission) {
+    const error = new Error(`A blog cannot move from ${STATUS_LABELS[blog.status]} to ${STATUS_LABELS[to]}`) as ApiError;
+    error.statusCode = 400;
+    throw error;
+  }
+
+  if (!requestHasPermission(req, permission)) {
+    const error = new Error(`Moving a blog to ${STATUS_LABELS[to]} requires the ${permission} permission`) as ApiError;
+    error.statusCode = 403;
+    throw error;
+  }
+
+  // Authors may always withdraw a blog they submitted, even when they can't edit it while in review
+  const isWithdrawal = blog.status === 'in_review' && to === 'draft' && idOf(blog.author) === idOf(req.user);
+
+  if (permission === 'blogs:update' && !isWithdrawal && !canAccessDocument(req, 'blogs:update', blog)) {
+    const error = new Error('Not authorized to update this blog') as ApiError;
+    error.statusCode = 403;
+    throw error;
+  }
+
+  if (permission === 'blogs:approve' && !requestHasPermission(req, 'blogs:manage')) {
+    const userId = idOf(req.user);
+    const reviewers = blog.reviewers.map(idOf);
+
+    if (idOf(blog.author) === userId) {
+      const error = new Error('Authors cannot review their own blogs') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+
+    if (reviewers.length > 0 && !reviewers.includes(userId)) {
+      const error = new Error('Only the assigned reviewers can review this blog') as ApiError;
+      error.statusCode = 403;
+      throw error;
+    }
+  }
+};
+
+/**
+ * Whether the requesting user may read the unpublished text of a blog (drafts, revisions): its author,
+ * the people who may edit it and, while it goes through review, its reviewers and holders of blogs:approve
+ */
+export const canReadUnpublishedBlog = (req: Request<any, any, any, any>, blog: IBlog): boolean => {
+  if (!req.user) return false;
+
+  const userId = idOf(req.user);
+  if (idOf(blog.author) === userId) return true;
+  if (requestHasPermission(req, 'blogs:update') && canAccessDocument(req, 'blogs:update', blog)) return true;
+
+  return REVIEW_STATUSES.includes(blog.status) &&
+    (blog.reviewers.map(idOf).includes(userId) || requestHasPermission(req, 'blogs:approve'));
+};
+
+/**
+ * Fields to set on a blog moving to a status
+ */
+export const getTransitionUpdate = (blog: IBlog, to: BlogStatus, actorId: Types.ObjectId): Partial<IBlog> => {
+  const update: Partial<IBlog> = { status: to };
+
+  if (to === 'in_review') {
+    update.submittedAt = new Date();
+  }
+  if (to === 'approved') {
+    update.approvedBy = actorId;
+    update.approvedAt = new Date();
+  }
+  // An approval only covers the text that was reviewed
+  if (['draft', 'in_review', 'changes_requested'].includes(to)) {
+    update.approvedBy = null;
+    update.approvedAt = null;
+  }
+  if (to === 'published' && !blog.publishedAt) {
+    update.publishedAt = new Date();
+  }
+
+  return update;
+};
+
+/**
+ * Tell the author and reviewers of a blog about a review event, by socket and email,
+ * leaving out the person who caused it
+ */
+export const notifyReviewParticipants = async (
+  blog: IBlog,
+  actor: IUser,
+  event: Record<string, any>,
+  summary: string,
+  comment?: string | null
+): Promise<void> => {
+  const participantIds = [idOf(blog.author), ...blog.reviewers.map(idOf)]
+    .filter((id, index, ids) => id !== idOf(actor) && ids.indexOf(id) === index);
+
+  const payload = {
+    ...event,
+    blog: { _id: blog._id, title: blog.title, status: blog.status },
+    actor: { _id: actor._id, name: actor.name },
+    comment: comment || null
+  };
+
+  notifyUsers(participantIds, 'notification:blog-review', payload);
+  if (event.type === 'transition' && blog.status === 'in_review' && blog.reviewers.length === 0) {
+    notifyRoles(UNASSIGNED_REVIEW_ROLES, 'notification:blog-review', payload);
+  }
+
+  const recipients = await User.find({ _id: { $in: participantIds }, isActive: true }).select('name email');
+  for (const recipient of recipients) {
+    await sendBlogReviewEmail(recipient, blog, summary, comment)
+      .catch(error => logger.error(`Blog review email could not be sent to ${recipient.email}`, error));
+  }
+};
+
+/**
+ * Record a status change in the review thread and notify the author and reviewers
+ */
+export const recordTransition = async (
+  blog: IBlog,
+  from: BlogStatus,
+  actor: IUser,
+  comment?: string | null
+): Promise<void> => {
+  const to = blog.status;
+  const summary = `${actor.name} moved "${blog.title}" from ${STATUS_LABELS[from]} to ${STATUS_LABELS[to]}.`;
+
+  await BlogReviewComment.create({
+    blog: blog._id,
+    author: actor._id,
+    body: comment || `Moved from ${STATUS_LABELS[from]} to ${STATUS_LABELS[to]}`,
+    transition: { from, to }
+  });
+
+  await notifyReviewParticipants(blog, actor, { type: 'transition', from, to }, summary, comment);
+};
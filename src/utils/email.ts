@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import { IInquiry } from '@/models/inquiry.model';
+import { IUser } from '@/models/user.model';
 import logger from '@/utils/logger';
 import { Settings } from '@/models';
 
@@ -54,6 +55,156 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
   }
 };
 
+interface ActionEmailTemplate {
+  title: string;
+  greeting: string;
+  body: string;
+  actionLabel: string;
+  actionUrl: string;
+  footer: string;
+}
+
+// Escape user supplied values before interpolating them into email HTML
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Shared layout for transactional emails that ask the user to follow a link
+const renderActionEmail = (template: ActionEmailTemplate): string => {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2>${template.title}</h2>
+      <p>${template.greeting}</p>
+      <p>${template.body}</p>
+      <p>
+        <a href="${template.actionUrl}" target="_blank"
+          style="display: inline-block; padding: 10px 20px; background: #111827; color: #ffffff; text-decoration: none; border-radius: 4px;">
+          ${template.actionLabel}
+        </a>
+      </p>
+      <p>If the button doesn't work, copy this link into your browser:<br>${template.actionUrl}</p>
+      <hr>
+      <p style="color: #6b7280; font-size: 12px;">${template.footer}</p>
+    </div>
+  `;
+};
+
+export const sendPasswordResetEmail = async (user: IUser, resetToken: string): Promise<void> => {
+  const resetUrl = `${process.env.FRONTEND_URL}/reset-password/${resetToken}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Password Reset',
+    html: renderActionEmail({
+      title: 'Password Reset',
+      greeting: `Hi ${escapeHtml(user.name)},`,
+      body: 'You requested a password reset. Please click the link below to reset your password. This link will expire in 10 minutes.',
+      actionLabel: 'Reset Password',
+      actionUrl: resetUrl,
+      footer: "If you didn't request this, please ignore this email. Your password will stay the same."
+    })
+  });
+};
+
+export const sendSetPasswordEmail = async (user: IUser, resetToken: string): Promise<void> => {
+  const setPasswordUrl = `${process.env.FRONTEND_URL}/reset-password/${resetToken}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Set up your account',
+    html: renderActionEmail({
+      title: 'Set up your account',
+      greeting: `Hi ${escapeHtml(user.name)},`,
+      body: 'An account has been created for you. Please click the link below to choose your password. This link will expire in 72 hours.',
+      actionLabel: 'Set Password',
+      actionUrl: setPasswordUrl,
+      footer: "If you weren't expecting this, please ignore this email."
+    })
+  });
+};
+
+export const sendInvitationEmail = async (
+  invitation: { email: string; name: string; expiresAt: Date },
+  inviterName: string,
+  inviteToken: string
+): Promise<void> => {
+  const acceptUrl = `${process.env.FRONTEND_URL}/accept-invite/${inviteToken}`;
+
+  await sendEmail({
+    to: invitation.email,
+    subject: `${inviterName} invited you to join`,
+    html: renderActionEmail({
+      title: "You're invited",
+      greeting: `Hi ${escapeHtml(invitation.name)},`,
+      body: `${escapeHtml(inviterName)} has invited you to create an account. Click the link below to choose your password. This invitation expires on ${invitation.expiresAt.toUTCString()}.`,
+      actionLabel: 'Accept Invitation',
+      actionUrl: acceptUrl,
+      footer: "If you weren't expecting this invitation, you can safely ignore this email."
+    })
+  });
+};
+
+export const sendBlogReviewEmail = async (
+  recipient: { name: string; email: string },
+  blog: { _id: unknown; title: string },
+  summary: string,
+  comment?: string | null
+): Promise<void> => {
+  const reviewUrl = `${process.env.FRONTEND_URL}/admin/blogs/${blog._id}/review`;
+
+  await sendEmail({
+    to: recipient.email,
+    subject: `Review update: ${blog.title}`,
+    html: renderActionEmail({
+      title: 'Blog review update',
+      greeting: `Hi ${escapeHtml(recipient.name)},`,
+      body: `${escapeHtml(summary)}${comment ? `<br><br><em>${escapeHtml(comment)}</em>` : ''}`,
+      actionLabel: 'Open Review',
+      actionUrl: reviewUrl,
+      footer: "You're receiving this because you are the author or a reviewer of this blog."
+    })
+  });
+};
+
+export const sendVerificationEmail = async (user: IUser, verificationToken: string): Promise<void> => {
+  const verifyUrl = `${process.env.FRONTEND_URL}/verify-email/${verificationToken}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Verify your email address',
+    html: renderActionEmail({
+      title: 'Verify your email address',
+      greeting: `Hi ${escapeHtml(user.name)},`,
+      body: 'Thanks for signing up. Please confirm your email address by clicking the link below. This link will expire in 24 hours.',
+      actionLabel: 'Verify Email',
+      actionUrl: verifyUrl,
+      footer: "If you didn't create an account, you can safely ignore this email."
+    })
+  });
+};
+
+export const sendMagicLinkEmail = async (user: IUser, magicLinkToken: string): Promise<void> => {
+  const loginUrl = `${process.env.FRONTEND_URL}/magic-link/${magicLinkToken}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Your sign-in link',
+    html: renderActionEmail({
+      title: 'Sign in',
+      greeting: `Hi ${escapeHtml(user.name)},`,
+      body: 'Click the link below to sign in. The link can only be used once and will expire in 15 minutes.',
+      actionLabel: 'Sign In',
+      actionUrl: loginUrl,
+      footer: "If you didn't request this, please ignore this email."
+    })
+  });
+};
+
 export const sendInquiryNotification = async (inquiry: IInquiry): Promise<void> => {
   try {
     // Get settings to determine notification recipients
@@ -89,4 +240,34 @@ export const sendInquiryNotification = async (inquiry: IInquiry): Promise<void>
     logger.error('Error sending inquiry notification:', error);
     // Don't throw error to prevent API failure if email fails
   }
-};
\ No newline at end of file
+};
+export const sendRoleExpiryNotification = async (expired: { name: string; email: string; roles: string[] }[]): Promise<void> => {
+  try {
+    const settings = await Settings.findOne();
+
+    if (!settings || !settings.emailSettings || !settings.emailSettings.notificationEmails.length) {
+      logger.warn('No notification emails configured, skipping role expiry notification');
+      return;
+    }
+
+    const { notificationEmails } = settings.emailSettings;
+
+    const html = `
+      <h2>Temporary Roles Expired</h2>
+      <p>The following temporary role assignments have expired and were removed:</p>
+      <ul>
+        ${expired.map(entry => `<li>${escapeHtml(entry.name)} (${escapeHtml(entry.email)}): ${entry.roles.map(escapeHtml).join(', ')}</li>`).join('')}
+      </ul>
+    `;
+
+    await sendEmail({
+      to: notificationEmails,
+      subject: 'Temporary roles expired',
+      html
+    });
+
+    logger.info(`Role expiry notification sent to ${notificationEmails.join(', ')}`);
+  } catch (error) {
+    logger.error('Error sending role expiry notification:', error);
+  }
+};
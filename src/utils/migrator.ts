@@ -0,0 +1,92 @@
+import Migration from '@/models/migration.model';
+import migrations from '@/migrations';
+import logger from '@/utils/logger';
+
+// A migration file. `up` and `down` must be safe to run against data they already match.
+export interface MigrationDefinition {
+  version: string;
+  name: string;
+  up: () => Promise<void>;
+  down: () => Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+}
+
+const sortedMigrations = (): MigrationDefinition[] => {
+  const versions = new Set<string>();
+  for (const migration of migrations) {
+    if (versions.has(migration.version)) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+    versions.add(migration.version);
+  }
+
+  return [...migrations].sort((a, b) => a.version.localeCompare(b.version));
+};
+
+/**
+ * List every known migration and whether it has been applied
+ */
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> => {
+  const applied = await Migration.find().lean();
+  const appliedByVersion = new Map(applied.map(migration => [migration.version, migration]));
+
+  const known = new Set(migrations.map(migration => migration.version));
+  applied
+    .filter(migration => !known.has(migration.version))
+    .forEach(migration => logger.warn(`Applied migration ${migration.version} (${migration.name}) has no migration file`));
+
+  return sortedMigrations().map(({ version, name }) => ({
+    version,
+    name,
+    applied: appliedByVersion.has(version),
+    appliedAt: appliedByVersion.get(version)?.appliedAt || null
+  }));
+};
+
+/**
+ * Get the migrations that have not been applied yet, in order
+ */
+export const getPendingMigrations = async (): Promise<MigrationDefinition[]> => {
+  const applied = new Set(await Migration.find().distinct('version'));
+  return sortedMigrations().filter(migration => !applied.has(migration.version));
+};
+
+/**
+ * Apply the pending migrations in order, up to and including `target` when given
+ */
+export const migrateUp = async (target?: string): Promise<MigrationDefinition[]> => {
+  const pending = (await getPendingMigrations()).filter(migration => !target || migration.version <= target);
+
+  for (const migration of pending) {
+    logger.info(`Applying migration ${migration.version} (${migration.name})`);
+    await migration.up();
+    await Migration.create({ version: migration.version, name: migration.name });
+  }
+
+  return pending;
+};
+
+/**
+ * Revert the most recently applied migrations, newest first
+ */
+export const migrateDown = async (steps = 1): Promise<MigrationDefinition[]> => {
+  const applied = new Set(await Migration.find().distinct('version'));
+  const reverted = sortedMigrations()
+    .filter(migration => applied.has(migration.version))
+    .reverse()
+    .slice(0, steps);
+
+  for (const migration of reverted) {
+    logger.info(`Reverting migration ${migration.version} (${migration.name})`);
+    await migration.down();
+    await Migration.deleteOne({ version: migration.version });
+  }
+
+  return reverted;
+};
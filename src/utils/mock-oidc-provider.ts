@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import http from 'http';
+import jwt from 'jsonwebtoken';
+
+// A minimal OpenID provider for trying the OIDC login locally: it signs in a fixed
+// user without asking for credentials. Never point a production deployment at it.
+
+export interface MockOidcUser {
+  sub: string;
+  email: string;
+  name: string;
+  groups: string[];
+}
+
+export interface MockOidcProviderOptions {
+  port: number;
+  clientId: string;
+  user: MockOidcUser;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  user: MockOidcUser;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 5 * 60;
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const readForm = async (req: http.IncomingMessage): Promise<URLSearchParams> => {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+};
+
+/**
+ * Start the mock provider. The user signing in can be changed per login with
+ * `login_hint` (email) on the authorization request.
+ */
+export const startMockOidcProvider = (options: MockOidcProviderOptions): Promise<{ server: http.Server; issuer: string }> => {
+  const issuer = `http://localhost:${options.port}`;
+  const kid = crypto.randomBytes(8).toString('hex');
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' };
+
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, { user: MockOidcUser; expiresAt: number }>();
+
+  const authorize = (url: URL, res: http.ServerResponse): void => {
+    const params = url.searchParams;
+    const redirectUri = params.get('redirect_uri');
+
+    if (params.get('client_id') !== options.clientId || !redirectUri) {
+      return sendJson(res, 400, { error: 'invalid_request', error_description: 'Unknown client or missing redirect_uri' });
+    }
+    if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+      return sendJson(res, 400, { error: 'invalid_request', error_description: 'PKCE with S256 is required' });
+    }
+
+    const loginHint = params.get('login_hint');
+    const user = loginHint
+      ? { ...options.user, sub: crypto.createHash('sha256').update(loginHint).digest('hex').slice(0, 24), email: loginHint }
+      : options.user;
+
+    const code = crypto.randomBytes(24).toString('base64url');
+    codes.set(code, {
+      clientId: options.clientId,
+      redirectUri,
+      codeChallenge: params.get('code_challenge')!,
+      nonce: params.get('nonce') || '',
+      user,
+      expiresAt: Date.now() + CODE_TTL_MS
+    });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    if (params.get('state')) location.searchParams.set('state', params.get('state')!);
+
+    res.writeHead(302, { Location: location.toString() });
+    res.end();
+  };
+
+  const token = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const form = await readForm(req);
+    const code = form.get('code') || '';
+    const pending = codes.get(code);
+    // Codes are single use
+    codes.delete(code);
+
+    if (form.get('grant_type') !== 'authorization_code' || !pending || pending.expiresAt < Date.now()) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const verifier = form.get('code_verifier') || '';
+    const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+    if (
+      form.get('client_id') !== pending.clientId ||
+      form.get('redirect_uri') !== pending.redirectUri ||
+      challenge !== pending.codeChallenge
+    ) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const accessToken = crypto.randomBytes(24).toString('base64url');
+    accessTokens.set(accessToken, { user: pending.user, expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000 });
+
+    const idToken = jwt.sign(
+      {
+        email: pending.user.email,
+        email_verified: true,
+        name: pending.user.name,
+        groups: pending.user.groups,
+        nonce: pending.nonce
+      },
+      privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: kid,
+        issuer,
+        audience: pending.clientId,
+        subject: pending.user.sub,
+        expiresIn: TOKEN_TTL_SECONDS
+      }
+    );
+
+    sendJson(res, 200, { access_token: accessToken, id_token: idToken, token_type: 'Bearer', expires_in: TOKEN_TTL_SECONDS });
+  };
+
+  const userInfo = (req: http.IncomingMessage, res: http.ServerResponse): void => {
+    const accessToken = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const entry = accessTokens.get(accessToken);
+    if (!entry || entry.expiresAt < Date.now()) {
+      return sendJson(res, 401, { error: 'invalid_token' });
+    }
+
+    const { sub, email, name, groups } = entry.user;
+    sendJson(res, 200, { sub, email, email_verified: true, name, groups });
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', issuer);
+
+    const route = `${req.method} ${url.pathname}`;
+    switch (route) {
+      case 'GET /.well-known/openid-configuration':
+        return sendJson(res, 200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          userinfo_endpoint: `${issuer}/userinfo`,
+          jwks_uri: `${issuer}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          code_challenge_methods_supported: ['S256']
+        });
+      case 'GET /jwks':
+        return sendJson(res, 200, { keys: [jwk] });
+      case 'GET /authorize':
+        return authorize(url, res);
+      case 'POST /token':
+        token(req, res).catch(() => sendJson(res, 500, { error: 'server_error' }));
+        return;
+      case 'GET /userinfo':
+        return userInfo(req, res);
+      default:
+        return sendJson(res, 404, { error: 'not_found' });
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, () => resolve({ server, issuer }));
+  });
+};
@@ -0,0 +1,236 @@
+import { OidcProviderConfig } from '@/config/oidc.config';
+import { ApiError } from '@/types';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+interface OidcTokenResponse {
+  access_token: string;
+  id_token: string;
+  token_type: string;
+}
+
+interface JwksCacheEntry {
+  keys: crypto.JsonWebKey[];
+  fetchedAt: number;
+}
+
+// Discovery documents and signing keys rarely change; keys are also refetched on an unknown kid
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+const SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+const discoveryCache = new Map<string, { document: OidcDiscovery; fetchedAt: number }>();
+const jwksCache = new Map<string, JwksCacheEntry>();
+
+const oidcError = (message: string, statusCode = 401): ApiError => {
+  const error = new Error(message) as ApiError;
+  error.statusCode = statusCode;
+  return error;
+};
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw oidcError(`Identity provider request failed with status ${response.status}`, 502);
+  }
+  return response.json() as Promise<T>;
+};
+
+const base64url = (buffer: Buffer): string => buffer.toString('base64url');
+
+/**
+ * Generate a PKCE code verifier and its S256 challenge
+ */
+export const generatePkce = (): { codeVerifier: string; codeChallenge: string } => {
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+  return { codeVerifier, codeChallenge };
+};
+
+/**
+ * Generate a random value for the state and nonce parameters
+ */
+export const generateOidcNonce = (): string => base64url(crypto.randomBytes(24));
+
+/**
+ * Fetch (and cache) the provider's OpenID configuration
+ */
+export const getDiscovery = async (provider: OidcProviderConfig): Promise<OidcDiscovery> => {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+    return cached.document;
+  }
+
+  const url = `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+  const document = await fetchJson<OidcDiscovery>(url);
+
+  if (document.issuer !== provider.issuer) {
+    throw oidcError(`Issuer mismatch in discovery document for provider ${provider.name}`, 502);
+  }
+
+  discoveryCache.set(provider.issuer, { document, fetchedAt: Date.now() });
+  return document;
+};
+
+/**
+ * Build the authorization URL the user is redirected to
+ */
+export const buildAuthorizationUrl = (
+  provider: OidcProviderConfig,
+  discovery: OidcDiscovery,
+  params: { state: string; nonce: string; codeChallenge: string }
+): string => {
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: provider.scopes.join(' '),
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: params.codeChallenge,
+    code_challenge_method: 'S256'
+  }).toString();
+
+  return url.toString();
+};
+
+/**
+ * Exchange an authorization code (and its PKCE verifier) for tokens
+ */
+export const exchangeCode = async (
+  provider: OidcProviderConfig,
+  discovery: OidcDiscovery,
+  code: string,
+  codeVerifier: string
+): Promise<OidcTokenResponse> => {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: provider.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: codeVerifier,
+    ...(provider.clientSecret && { client_secret: provider.clientSecret })
+  });
+
+  const tokens = await fetchJson<OidcTokenResponse>(discovery.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    },
+    body
+  });
+
+  if (!tokens.id_token) {
+    throw oidcError('Identity provider did not return an ID token', 502);
+  }
+
+  return tokens;
+};
+
+const getSigningKey = async (discovery: OidcDiscovery, kid: string | undefined): Promise<crypto.KeyObject> => {
+  const findKey = (entry: JwksCacheEntry | undefined) =>
+    entry?.keys.find(key => (kid ? key.kid === kid : key.use !== 'enc'));
+
+  let entry = jwksCache.get(discovery.jwks_uri);
+  let jwk = entry && Date.now() - entry.fetchedAt < METADATA_CACHE_TTL_MS ? findKey(entry) : undefined;
+
+  // Unknown key: the provider may have rotated its keys
+  if (!jwk) {
+    const { keys } = await fetchJson<{ keys: crypto.JsonWebKey[] }>(discovery.jwks_uri);
+    entry = { keys, fetchedAt: Date.now() };
+    jwksCache.set(discovery.jwks_uri, entry);
+    jwk = findKey(entry);
+  }
+
+  if (!jwk) {
+    throw oidcError('No matching signing key for ID token');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+/**
+ * Verify an ID token's signature, issuer, audience, expiry and nonce
+ */
+export const verifyIdToken = async (
+  provider: OidcProviderConfig,
+  discovery: OidcDiscovery,
+  idToken: string,
+  nonce: string
+): Promise<OidcClaims> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw oidcError('Malformed ID token');
+  }
+
+  const key = await getSigningKey(discovery, decoded.header.kid);
+
+  let claims: OidcClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: SUPPORTED_ALGORITHMS,
+      issuer: discovery.issuer,
+      audience: provider.clientId
+    }) as OidcClaims;
+  } catch (error) {
+    throw oidcError('Invalid ID token');
+  }
+
+  if (claims.nonce !== nonce) {
+    throw oidcError('Invalid ID token nonce');
+  }
+
+  return claims;
+};
+
+/**
+ * Merge claims from the userinfo endpoint (some providers only put groups there)
+ */
+export const fetchUserInfo = async (
+  discovery: OidcDiscovery,
+  accessToken: string,
+  claims: OidcClaims
+): Promise<OidcClaims> => {
+  if (!discovery.userinfo_endpoint || !accessToken) return claims;
+
+  const userInfo = await fetchJson<OidcClaims>(discovery.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${accessToken}` }
+  });
+
+  // Userinfo must describe the same subject as the ID token
+  if (userInfo.sub !== claims.sub) return claims;
+
+  return { ...userInfo, ...claims };
+};
+
+/**
+ * Map the provider's group claim to local role names
+ */
+export const mapGroupsToRoles = (provider: OidcProviderConfig, claims: OidcClaims): string[] => {
+  const value = claims[provider.groupsClaim];
+  const groups = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+
+  const roleNames = groups
+    .filter((group): group is string => typeof group === 'string')
+    .map(group => provider.roleMapping[group])
+    .filter(Boolean);
+
+  return [...new Set(roleNames)];
+};
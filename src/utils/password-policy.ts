@@ -0,0 +1,116 @@
+import commonPasswords from '@/data/common-passwords.json';
+import { Settings } from '@/models';
+import { IPasswordPolicy } from '@/models/settings.model';
+import { IUser } from '@/models/user.model';
+import { ApiError } from '@/types';
+
+export const DEFAULT_PASSWORD_POLICY: IPasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumber: false,
+  requireSymbol: false,
+  disallowPersonalInfo: true,
+  blockCommonPasswords: true,
+  historySize: 5,
+  maxAgeDays: 0
+};
+
+const COMMON_PASSWORDS = new Set((commonPasswords as string[]).map(password => password.toLowerCase()));
+
+/**
+ * Get the password policy from settings, falling back to the defaults
+ */
+export const getPasswordPolicy = async (): Promise<IPasswordPolicy> => {
+  const settings = await Settings.findOne().lean();
+
+  return {
+    ...DEFAULT_PASSWORD_POLICY,
+    ...settings?.passwordPolicy
+  };
+};
+
+/**
+ * Check a password against the policy and return the list of violations
+ */
+export const checkPasswordPolicy = (
+  password: string,
+  policy: IPasswordPolicy,
+  personalInfo: { name?: string; email?: string } = {}
+): string[] => {
+  const errors: string[] = [];
+
+  if (password.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain a lowercase letter');
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    errors.push('Password must contain a number');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Password must contain a symbol');
+  }
+
+  if (policy.disallowPersonalInfo) {
+    const lowered = password.toLowerCase();
+    const personalParts = [
+      ...(personalInfo.name ? personalInfo.name.toLowerCase().split(/\s+/) : []),
+      ...(personalInfo.email ? [personalInfo.email.toLowerCase().split('@')[0]] : [])
+    ].filter(part => part.length >= 3);
+
+    if (personalParts.some(part => lowered.includes(part))) {
+      errors.push('Password must not contain your name or email');
+    }
+  }
+
+  if (policy.blockCommonPasswords && COMMON_PASSWORDS.has(password.toLowerCase())) {
+    errors.push('Password is too common');
+  }
+
+  return errors;
+};
+
+/**
+ * Make sure a new password satisfies the policy and, for existing users, has not been used recently
+ * (the user needs `+password +passwordHistory` selected for the history check)
+ * Throws a 400 ApiError listing every violation
+ */
+export const assertPasswordAllowed = async (
+  password: string,
+  personalInfo: { name?: string; email?: string },
+  user?: IUser,
+  policy?: IPasswordPolicy
+): Promise<IPasswordPolicy> => {
+  const activePolicy = policy || (await getPasswordPolicy());
+  const errors = checkPasswordPolicy(password, activePolicy, personalInfo);
+
+  if (errors.length === 0 && user && (await user.isPasswordReused(password, activePolicy.historySize))) {
+    errors.push(`Password must not match any of your last ${activePolicy.historySize} passwords`);
+  }
+
+  if (errors.length > 0) {
+    const error = new Error('Password does not meet the password policy') as ApiError;
+    error.statusCode = 400;
+    error.errors = errors.map(message => ({ field: 'password', message }));
+    throw error;
+  }
+
+  return activePolicy;
+};
+
+/**
+ * Check whether the user's password is older than the policy's maximum age
+ */
+export const isPasswordExpired = (user: IUser, policy: IPasswordPolicy): boolean => {
+  if (!policy.maxAgeDays) return false;
+
+  const changedAt = user.passwordChangedAt || user.createdAt;
+  if (!changedAt) return false;
+
+  return Date.now() - changedAt.getTime() > policy.maxAgeDays * 24 * 60 * 60 * 1000;
+};
@@ -0,0 +1,120 @@
+import { loadRoleGraph, resolveEffectivePermissions } from '@/utils/role-hierarchy';
+import { Types } from 'mongoose';
+
+// A user's roles and permissions, compiled into sets for constant time checks
+export interface CompiledAccess {
+  roles: Set<string>;
+  permissions: Set<string>;
+  // Effective permissions of each directly assigned role, by role name (for access policies)
+  roleGrants: Map<string, Set<string>>;
+  isSuperAdmin: boolean;
+  requireTwoFactor: boolean;
+}
+
+interface CacheEntry {
+  roleKey: string;
+  access: CompiledAccess;
+  cachedAt: number;
+}
+
+// Entries are invalidated on every role/permission change made through this
+// instance; the TTL bounds staleness for changes made by other instances
+const ACCESS_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const accessCache = new Map<string, CacheEntry>();
+
+const toRoleKey = (roleIds: (Types.ObjectId | string)[]): string => {
+  return roleIds.map(id => id.toString()).sort().join(',');
+};
+
+/**
+ * Compile the effective roles and permissions of a set of roles, including
+ * every role they inherit from
+ */
+export const compileAccess = async (roleIds: (Types.ObjectId | string)[]): Promise<CompiledAccess> => {
+  const graph = await loadRoleGraph(roleIds);
+  const assignedRoleIds = new Set(roleIds.map(id => id.toString()));
+
+  const access: CompiledAccess = {
+    roles: new Set(),
+    permissions: new Set(),
+    roleGrants: new Map(),
+    isSuperAdmin: false,
+    requireTwoFactor: false
+  };
+
+  for (const [id, role] of graph) {
+    access.roles.add(role.name);
+
+    // Inheriting a role's permissions also inherits its two-factor requirement
+    if (role.requireTwoFactor) access.requireTwoFactor = true;
+
+    for (const permission of role.permissions) {
+      access.permissions.add(`${permission.resource}:${permission.name}`);
+    }
+  }
+
+  for (const id of assignedRoleIds) {
+    const role = graph.get(id);
+    if (role) {
+      access.roleGrants.set(role.name, new Set(resolveEffectivePermissions(graph, id).map(permission => permission.code)));
+    }
+  }
+
+  access.isSuperAdmin = access.roles.has('SuperAdmin');
+  return access;
+};
+
+/**
+ * Get the compiled access of a user, from the cache when their role assignment hasn't changed
+ */
+export const getUserAccess = async (
+  userId: Types.ObjectId | string,
+  roleIds: (Types.ObjectId | string)[]
+): Promise<CompiledAccess> => {
+  const key = userId.toString();
+  const roleKey = toRoleKey(roleIds);
+  const cached = accessCache.get(key);
+
+  if (cached && cached.roleKey === roleKey && Date.now() - cached.cachedAt < ACCESS_CACHE_TTL_MS) {
+    return cached.access;
+  }
+
+  const access = await compileAccess(roleIds);
+  accessCache.set(key, { roleKey, access, cachedAt: Date.now() });
+  return access;
+};
+
+/**
+ * Check a permission against a set of permission codes, honouring `resource:manage` and `all:manage`
+ */
+export const permissionSetAllows = (permissions: Set<string>, permission: string): boolean => {
+  const [resource] = permission.split(':');
+  return permissions.has(permission)
+    || permissions.has(`${resource}:manage`)
+    || permissions.has('all:manage');
+};
+
+/**
+ * Check a permission against compiled access, honouring `resource:manage`,
+ * `all:manage` and the SuperAdmin role
+ */
+export const accessAllows = (access: CompiledAccess, permission: string): boolean => {
+  if (access.isSuperAdmin) return true;
+
+  return permissionSetAllows(access.permissions, permission);
+};
+
+/**
+ * Drop the cached access of one user (e.g. after their roles changed)
+ */
+export const invalidateUserAccess = (userId: Types.ObjectId | string): void => {
+  accessCache.delete(userId.toString());
+};
+
+/**
+ * Drop all cached access (e.g. after a role or permission changed)
+ */
+export const invalidateAllAccess = (): void => {
+  accessCache.clear();
+};
@@ -0,0 +1,164 @@
+import Permission from '@/models/permission.model';
+import logger from '@/utils/logger';
+
+// Resources and the actions they support, registered by the route modules when they load
+export interface ResourceDefinition {
+  resource: string;
+  description: string;
+  actions: string[];
+}
+
+export interface CatalogPermission {
+  id: string | null;
+  code: string;
+  name: string;
+  description: string;
+  // Declared by a route module
+  registered: boolean;
+  // Checked by at least one route (`manage` permissions always count as used)
+  used: boolean;
+  // Stored as a Permission document
+  synced: boolean;
+}
+
+export interface CatalogResource {
+  resource: string;
+  description: string | null;
+  registered: boolean;
+  permissions: CatalogPermission[];
+}
+
+const resources = new Map<string, ResourceDefinition>([
+  ['all', { resource: 'all', description: 'Every resource', actions: ['manage'] }]
+]);
+
+// Permission codes checked by `requirePermission` somewhere in the routes
+const usedPermissions = new Set<string>();
+
+/**
+ * Register a resource and its actions (call at module load, before `syncPermissions`)
+ */
+export const registerResource = (resource: string, description: string, actions: string[]): void => {
+  const existing = resources.get(resource);
+
+  resources.set(resource, {
+    resource,
+    description: existing?.description || description,
+    actions: [...new Set([...(existing?.actions || []), ...actions])]
+  });
+};
+
+/**
+ * Record that routes check these permission codes
+ */
+export const markPermissionsUsed = (permissions: string[]): void => {
+  permissions.forEach(permission => usedPermissions.add(permission));
+};
+
+/**
+ * Default description for a permission created from the registry
+ */
+export const describePermission = (resource: string, name: string): string => {
+  return resource === 'all'
+    ? 'Allows complete access to all resources'
+    : `Allows ${name} operations on ${resource}`;
+};
+
+const isUsed = (resource: string, action: string): boolean => {
+  return action === 'manage' || usedPermissions.has(`${resource}:${action}`);
+};
+
+/**
+ * Get every registered `resource:action` code, including the ones only known from route checks
+ */
+export const getRegisteredPermissions = (): { resource: string; name: string }[] => {
+  const codes = new Set<string>(usedPermissions);
+  for (const { resource, actions } of resources.values()) {
+    actions.forEach(action => codes.add(`${resource}:${action}`));
+  }
+
+  return [...codes].map(code => {
+    const [resource, name] = code.split(':');
+    return { resource, name };
+  });
+};
+
+/**
+ * Create the Permission documents that are registered but missing from the database
+ */
+export const syncPermissions = async (): Promise<number> => {
+  const registered = getRegisteredPermissions();
+  const existing = await Permission.find({}, 'resource name').lean();
+  const existingCodes = new Set(existing.map(permission => `${permission.resource}:${permission.name}`));
+
+  const missing = registered.filter(({ resource, name }) => !existingCodes.has(`${resource}:${name}`));
+  if (missing.length === 0) return 0;
+
+  await Permission.insertMany(
+    missing.map(({ resource, name }) => ({
+      resource,
+      name,
+      description: describePermission(resource, name)
+    })),
+    { ordered: false }
+  );
+
+  logger.info(`Synced ${missing.length} missing permissions: ${missing.map(p => `${p.resource}:${p.name}`).join(', ')}`);
+  return missing.length;
+};
+
+/**
+ * Build the permission catalog, grouped by resource, from the registry and the stored permissions
+ */
+export const getPermissionCatalog = async (): Promise<CatalogResource[]> => {
+  const stored = await Permission.find().lean();
+  const registered = new Set(getRegisteredPermissions().map(({ resource, name }) => `${resource}:${name}`));
+  const catalog = new Map<string, CatalogResource>();
+
+  const resourceEntry = (resource: string): CatalogResource => {
+    if (!catalog.has(resource)) {
+      const definition = resources.get(resource);
+      catalog.set(resource, {
+        resource,
+        description: definition?.description || null,
+        registered: !!definition,
+        permissions: []
+      });
+    }
+    return catalog.get(resource)!;
+  };
+
+  for (const permission of stored) {
+    const code = `${permission.resource}:${permission.name}`;
+    resourceEntry(permission.resource).permissions.push({
+      id: permission._id.toString(),
+      code,
+      name: permission.name,
+      description: permission.description,
+      registered: registered.has(code),
+      used: isUsed(permission.resource, permission.name),
+      synced: true
+    });
+  }
+
+  // Registered permissions that have not been synced yet
+  const storedCodes = new Set(stored.map(permission => `${permission.resource}:${permission.name}`));
+  for (const { resource, name } of getRegisteredPermissions()) {
+    const code = `${resource}:${name}`;
+    if (storedCodes.has(code)) continue;
+
+    resourceEntry(resource).permissions.push({
+      id: null,
+      code,
+      name,
+      description: describePermission(resource, name),
+      registered: true,
+      used: isUsed(resource, name),
+      synced: false
+    });
+  }
+
+  return [...catalog.values()]
+    .sort((a, b) => a.resource.localeCompare(b.resource))
+    .map(entry => ({ ...entry, permissions: entry.permissions.sort((a, b) => a.name.localeCompare(b.name)) }));
+};
@@ -0,0 +1,221 @@
+import { Application, Inquiry, Invitation, Session, User } from '@/models';
+import { IApplication } from '@/models/application.model';
+import { IInquiry } from '@/models/inquiry.model';
+import { IInvitation } from '@/models/invitation.model';
+import { IPrivacyRecordCounts } from '@/models/privacy-request.model';
+import { IUser } from '@/models/user.model';
+import logger from '@/utils/logger';
+import { invalidateUserAccess } from '@/utils/permission-cache';
+import { revokeUserSessions } from '@/utils/session';
+import { deleteFile, downloadFile, getResumeStorageKey } from '@/utils/storage.utils';
+import { createZip, ZipEntry } from '@/utils/zip';
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+
+// Placeholder address for anonymized records (a reserved domain that passes the email validators)
+const ERASED_EMAIL = 'erased@example.com';
+const ERASED_NAME = 'Erased';
+
+// Tokens and hashes that are secrets rather than personal data
+const USER_EXPORT_EXCLUDE = '-passwordResetToken -passwordResetExpires -emailVerificationToken -emailVerificationExpires -magicLinkToken -magicLinkExpires';
+
+export interface SubjectData {
+  users: IUser[];
+  inquiries: IInquiry[];
+  applications: IApplication[];
+  invitations: IInvitation[];
+}
+
+interface StoredFile {
+  key: string;
+  // Path of the file inside the export archive
+  path: string;
+}
+
+/**
+ * Identify a data subject in compliance records without storing their email address
+ */
+export const hashSubject = (email: string): string => {
+  return crypto
+    .createHash('sha256')
+    .update(email.trim().toLowerCase())
+    .digest('hex');
+};
+
+/**
+ * Find every record tied to an email address, including the ones in the trash
+ */
+export const findSubjectData = async (email: string): Promise<SubjectData> => {
+  const address = email.trim().toLowerCase();
+  // Application emails are stored as submitted, so they are matched case insensitively
+  const pattern = new RegExp(`^${address.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i');
+
+  const [users, inquiries, applications, invitations] = await Promise.all([
+    User.find({ email: address }).setOptions({ withDeleted: true }),
+    Inquiry.find({ email: pattern }).setOptions({ withDeleted: true }),
+    Application.find({ email: pattern }).setOptions({ withDeleted: true }),
+    Invitation.find({ email: address })
+  ]);
+
+  return { users, inquiries, applications, invitations };
+};
+
+// Uploaded files referenced by the records; resumes linked from other sites (or pointing outside
+// the resume uploads) are not ours to export or remove
+const getStoredFiles = (data: SubjectData): StoredFile[] => {
+  const files: StoredFile[] = [];
+
+  for (const application of data.applications) {
+    const key = getResumeStorageKey(application.resumeUrl);
+    if (key) files.push({ key, path: `files/resumes/${application._id}-${key.split('/').pop()}` });
+  }
+
+  for (const user of data.users) {
+    if (user.profile?.avatar) files.push({ key: user.profile.avatar, path: `files/avatars/${user.profile.avatar.split('/').pop()}` });
+  }
+
+  return files;
+};
+
+/**
+ * Count the records and stored files found for a data subject
+ */
+export const countSubjectData = (data: SubjectData): IPrivacyRecordCounts => ({
+  users: data.users.length,
+  inquiries: data.inquiries.length,
+  applications: data.applications.length,
+  invitations: data.invitations.length,
+  files: getStoredFiles(data).length
+});
+
+/**
+ * Build a ZIP archive of everything held about a data subject: one JSON file per collection,
+ * the uploaded files, and a manifest listing what was included
+ */
+export const buildSubjectExport = async (
+  email: string,
+  data: SubjectData
+): Promise<{ archive: Buffer; failedFiles: number }> => {
+  const userIds = data.users.map(user => user._id as Types.ObjectId);
+
+  const [users, sessions] = await Promise.all([
+    User.find({ _id: { $in: userIds } })
+      .setOptions({ withDeleted: true })
+      .select(USER_EXPORT_EXCLUDE)
+      .populate('roles', 'name')
+      .lean(),
+    Session.find({ user: { $in: userIds } })
+      .select('device userAgent ipAddress lastSeenAt expiresAt revokedAt revokedReason createdAt')
+      .lean()
+  ]);
+
+  const entries: ZipEntry[] = [
+    { name: 'users.json', data: JSON.stringify(users, null, 2) },
+    { name: 'sessions.json', data: JSON.stringify(sessions, null, 2) },
+    { name: 'inquiries.json', data: JSON.stringify(data.inquiries, null, 2) },
+    { name: 'applications.json', data: JSON.stringify(data.applications, null, 2) },
+    { name: 'invitations.json', data: JSON.stringify(data.invitations, null, 2) }
+  ];
+
+  const included: string[] = [];
+  const missing: string[] = [];
+
+  for (const file of getStoredFiles(data)) {
+    try {
+      const { body } = await downloadFile(file.key);
+      entries.push({ name: file.path, data: body });
+      included.push(file.path);
+    } catch (error) {
+      logger.error(`Could not add ${file.key} to a personal data export`, error);
+      missing.push(file.path);
+    }
+  }
+
+  entries.unshift({
+    name: 'manifest.json',
+    data: JSON.stringify({
+      email,
+      exportedAt: new Date(),
+      records: countSubjectData(data),
+      files: included,
+      // Files referenced by the records that could not be read from storage
+      missingFiles: missing
+    }, null, 2)
+  });
+
+  return { archive: createZip(entries), failedFiles: missing.length };
+};
+
+// Strip the personal data from an account, keep the document so content it authored stays attributable
+const anonymizeUser = async (user: IUser, erasedBy: Types.ObjectId): Promise<void> => {
+  const userId = user._id as Types.ObjectId;
+
+  user.name = `${ERASED_NAME} user`;
+  user.email = `erased-${userId}@example.com`;
+  user.password = crypto.randomBytes(32).toString('hex');
+  user.passwordHistory = [];
+  user.isActive = false;
+  user.identities = [];
+  user.set('twoFactor', { enabled: false, secret: null, pendingSecret: null, backupCodes: [], lastUsedStep: null, enabledAt: null });
+  user.set('profile', {
+    avatar: null,
+    bio: null,
+    jobTitle: null,
+    socialLinks: { website: null, twitter: null, linkedin: null, github: null },
+    slug: `erased-${userId}`
+  });
+  user.passwordResetToken = null;
+  user.emailVerificationToken = null;
+  user.magicLinkToken = null;
+  await user.save();
+
+  if (!user.deletedAt) {
+    await user.softDelete(erasedBy);
+  }
+
+  await revokeUserSessions(userId, 'user_erased');
+  // Sessions hold IP addresses and user agents
+  await Session.deleteMany({ user: userId });
+  invalidateUserAccess(userId);
+};
+
+/**
+ * Anonymize every record tied to a data subject and delete their uploaded files.
+ * Records are kept (anonymized) so statistics and references stay intact.
+ */
+export const eraseSubjectData = async (data: SubjectData, erasedBy: Types.ObjectId): Promise<{ failedFiles: number }> => {
+  let failedFiles = 0;
+
+  for (const file of getStoredFiles(data)) {
+    try {
+      await deleteFile(file.key);
+    } catch (error) {
+      logger.error(`Could not delete ${file.key} while erasing personal data`, error);
+      failedFiles++;
+    }
+  }
+
+  for (const user of data.users) {
+    await anonymizeUser(user, erasedBy);
+  }
+
+  if (data.inquiries.length > 0) {
+    await Inquiry.updateMany(
+      { _id: { $in: data.inquiries.map(inquiry => inquiry._id) } },
+      { $set: { name: ERASED_NAME, email: ERASED_EMAIL, message: '[erased]' }, $unset: { phone: 1, notes: 1 } }
+    ).setOptions({ withDeleted: true });
+  }
+
+  if (data.applications.length > 0) {
+    await Application.updateMany(
+      { _id: { $in: data.applications.map(application => application._id) } },
+      { $set: { name: ERASED_NAME, email: ERASED_EMAIL, phone: '[erased]', resumeUrl: '[erased]' }, $unset: { coverLetter: 1, notes: 1 } }
+    ).setOptions({ withDeleted: true });
+  }
+
+  if (data.invitations.length > 0) {
+    await Invitation.deleteMany({ _id: { $in: data.invitations.map(invitation => invitation._id) } });
+  }
+
+  return { failedFiles };
+};
@@ -0,0 +1,39 @@
+import { IUser } from '@/models/user.model';
+import { generatePresignedDownloadUrl } from '@/utils/storage.utils';
+import logger from '@/utils/logger';
+
+/**
+ * Get a temporary download URL for an avatar, or null when there is none or signing fails
+ */
+export const getAvatarUrl = async (key: string | null | undefined): Promise<string | null> => {
+  if (!key) return null;
+
+  try {
+    return await generatePresignedDownloadUrl(key);
+  } catch (error) {
+    logger.error(`Could not sign the avatar URL for ${key}`, error);
+    return null;
+  }
+};
+
+/**
+ * The public part of a user's profile, as shown on author pages
+ */
+export const toPublicProfile = async (user: IUser) => {
+  const { avatar, bio, jobTitle, socialLinks, slug } = user.profile || {};
+
+  return {
+    _id: user._id,
+    name: user.name,
+    slug: slug || null,
+    avatarUrl: await getAvatarUrl(avatar),
+    bio: bio || null,
+    jobTitle: jobTitle || null,
+    socialLinks: {
+      website: socialLinks?.website || null,
+      twitter: socialLinks?.twitter || null,
+      linkedin: socialLinks?.linkedin || null,
+      github: socialLinks?.github || null
+    }
+  };
+};
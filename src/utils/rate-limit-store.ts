@@ -0,0 +1,65 @@
+import RateLimit from '@/models/rate-limit.model';
+import type { ClientRateLimitInfo, Options, Store } from 'express-rate-limit';
+
+/**
+ * express-rate-limit store backed by MongoDB, so limits survive restarts
+ * and are shared between instances
+ */
+export class MongoRateLimitStore implements Store {
+  prefix: string;
+  localKeys = false;
+  private windowMs = 60 * 1000;
+
+  constructor(prefix: string) {
+    this.prefix = `${prefix}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const record = await RateLimit.findOne({ key: this.prefix + key, resetAt: { $gt: new Date() } });
+    if (!record) return undefined;
+
+    return { totalHits: record.hits, resetTime: record.resetAt };
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const now = new Date();
+    const isExpired = {
+      $or: [
+        { $eq: [{ $ifNull: ['$resetAt', null] }, null] },
+        { $lte: ['$resetAt', now] }
+      ]
+    };
+
+    // Start a new window when the previous one has passed, otherwise count the hit
+    const record = await RateLimit.findOneAndUpdate(
+      { key: this.prefix + key },
+      [
+        {
+          $set: {
+            hits: { $cond: [isExpired, 1, { $add: ['$hits', 1] }] },
+            resetAt: { $cond: [isExpired, new Date(now.getTime() + this.windowMs), '$resetAt'] }
+          }
+        }
+      ],
+      { upsert: true, new: true }
+    );
+
+    return { totalHits: record!.hits, resetTime: record!.resetAt };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await RateLimit.updateOne({ key: this.prefix + key, hits: { $gt: 0 } }, { $inc: { hits: -1 } });
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await RateLimit.deleteOne({ key: this.prefix + key });
+  }
+
+  async resetAll(): Promise<void> {
+    await RateLimit.deleteMany({ key: { $regex: `^${this.prefix}` } });
+  }
+}
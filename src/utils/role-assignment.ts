@@ -0,0 +1,72 @@
+import { requestHasPermission } from '@/middleware/permission.middlware';
+import { IRoleAssignment, IUser } from '@/models/user.model';
+import { RoleAssignmentInput } from '@/schemas/auth.schema';
+import { ApiError } from '@/types';
+import { compileAccess } from '@/utils/permission-cache';
+import { Request } from 'express';
+import { Types } from 'mongoose';
+
+export type ParsedRoleAssignment = Pick<IRoleAssignment, 'startsAt' | 'expiresAt'> & { role: string };
+
+/**
+ * Normalize plain role IDs and time-bound role assignments from a request body
+ */
+export const parseRoleAssignments = (roles: RoleAssignmentInput[]): ParsedRoleAssignment[] => {
+  return roles.map(entry => typeof entry === 'string'
+    ? { role: entry, startsAt: null, expiresAt: null }
+    : {
+        role: entry.role,
+        startsAt: entry.startsAt ? new Date(entry.startsAt) : null,
+        expiresAt: entry.expiresAt ? new Date(entry.expiresAt) : null
+      });
+};
+
+/**
+ * Add roles to a user document (avoiding duplicates); assigning a role again replaces its time bounds.
+ * The caller saves the user.
+ */
+export const addRoleAssignments = (user: IUser, assignments: ParsedRoleAssignment[]): void => {
+  const currentRoleIds = user.roles.map(r => r.toString());
+
+  for (const assignment of assignments) {
+    if (!currentRoleIds.includes(assignment.role)) {
+      (user.roles as Types.ObjectId[]).push(new Types.ObjectId(assignment.role));
+      currentRoleIds.push(assignment.role);
+    }
+
+    user.roleAssignments = user.roleAssignments.filter(entry => entry.role.toString() !== assignment.role);
+    if (assignment.startsAt || assignment.expiresAt) {
+      user.roleAssignments.push({
+        ...assignment,
+        role: new Types.ObjectId(assignment.role),
+        assignedAt: new Date()
+      });
+    }
+  }
+};
+
+/**
+ * Check that the requesting user holds every permission the roles carry (inherited ones included),
+ * so nobody can hand out or take away more access than they have. Only a SuperAdmin manages SuperAdmins.
+ */
+export const assertCanManageRoles = async (
+  req: Request<any, any, any, any>,
+  roleIds: (Types.ObjectId | string)[]
+): Promise<void> => {
+  if (roleIds.length === 0) return;
+
+  const granted = await compileAccess(roleIds);
+
+  if (granted.isSuperAdmin && !(req.access?.isSuperAdmin ?? req.user!.hasRole('SuperAdmin'))) {
+    const error = new Error('Only a SuperAdmin can grant or remove the SuperAdmin role') as ApiError;
+    error.statusCode = 403;
+    throw error;
+  }
+
+  const missing = [...granted.permissions].filter(permission => !requestHasPermission(req, permission));
+  if (missing.length > 0) {
+    const error = new Error(`You cannot manage roles with permissions you don't have: ${missing.join(', ')}`) as ApiError;
+    error.statusCode = 403;
+    throw error;
+  }
+};
@@ -0,0 +1,86 @@
+import { Role, User } from '@/models';
+import { notifyRoles } from '@/socket';
+import { recordAudit } from '@/utils/audit';
+import { sendRoleExpiryNotification } from '@/utils/email';
+import logger from '@/utils/logger';
+import { invalidateUserAccess } from '@/utils/permission-cache';
+import { Types } from 'mongoose';
+
+const SWEEP_INTERVAL_MS = Number(process.env.ROLE_EXPIRY_SWEEP_INTERVAL_MS) || 5 * 60 * 1000;
+
+/**
+ * Remove expired temporary role assignments and notify the admins.
+ * Users left without any role fall back to the default role.
+ */
+export const sweepExpiredRoleAssignments = async (): Promise<number> => {
+  const now = new Date();
+  const users = await User.find({ 'roleAssignments.expiresAt': { $lte: now } }).select('name email roles roleAssignments');
+  if (users.length === 0) return 0;
+
+  const defaultRole = await Role.findOne({ isDefault: true }).select('_id');
+  const expiredRoleIds = new Set(
+    users.flatMap(user => user.roleAssignments
+      .filter(assignment => assignment.expiresAt && assignment.expiresAt <= now)
+      .map(assignment => assignment.role.toString()))
+  );
+  const roleNames = new Map(
+    (await Role.find({ _id: { $in: [...expiredRoleIds] } }).select('name').lean())
+      .map(role => [role._id.toString(), role.name])
+  );
+
+  const expired: { name: string; email: string; roles: string[] }[] = [];
+
+  for (const user of users) {
+    const roleIds = user.roleAssignments
+      .filter(assignment => assignment.expiresAt && assignment.expiresAt <= now)
+      .map(assignment => assignment.role);
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $pull: {
+          roles: { $in: roleIds },
+          roleAssignments: { role: { $in: roleIds }, expiresAt: { $lte: now } }
+        }
+      }
+    );
+
+    if (defaultRole) {
+      await User.updateOne({ _id: user._id, roles: { $size: 0 } }, { roles: [defaultRole._id] });
+    }
+
+    invalidateUserAccess(user._id as Types.ObjectId);
+
+    const roles = roleIds.map(roleId => roleNames.get(roleId.toString()) || roleId.toString());
+    expired.push({ name: user.name, email: user.email, roles });
+
+    await recordAudit({
+      actor: null,
+      action: 'user.roles_expired',
+      targetType: 'User',
+      targetId: user._id as Types.ObjectId,
+      metadata: { roles }
+    });
+  }
+
+  logger.info(`Removed expired role assignments from ${expired.length} users`);
+
+  notifyRoles(['SuperAdmin', 'Admin'], 'notification:roles-expired', { expired });
+  await sendRoleExpiryNotification(expired);
+
+  return expired.length;
+};
+
+/**
+ * Sweep expired role assignments now and then periodically
+ */
+export const startRoleExpirySweep = (): NodeJS.Timeout => {
+  const sweep = () => {
+    sweepExpiredRoleAssignments().catch(error => logger.error('Role expiry sweep failed:', error));
+  };
+
+  sweep();
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
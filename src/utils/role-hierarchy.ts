@@ -0,0 +1,146 @@
+import Role from '@/models/role.model';
+import { IPermission } from '@/models/permission.model';
+import { ApiError } from '@/types';
+import { Types } from 'mongoose';
+
+// A role loaded for inheritance resolution, with its own permissions populated
+export interface RoleNode {
+  _id: Types.ObjectId;
+  name: string;
+  requireTwoFactor: boolean;
+  permissions: IPermission[];
+  parentRoles: Types.ObjectId[];
+}
+
+// Where an effective permission comes from; `path` runs from the resolved role to the granting role
+export interface PermissionSource {
+  roleId: string;
+  role: string;
+  inherited: boolean;
+  path: string[];
+}
+
+export interface EffectivePermission {
+  code: string;
+  permission: IPermission;
+  sources: PermissionSource[];
+}
+
+/**
+ * Load a set of roles together with every role they inherit from,
+ * one level of the inheritance graph per query
+ */
+export const loadRoleGraph = async (roleIds: (Types.ObjectId | string)[]): Promise<Map<string, RoleNode>> => {
+  const graph = new Map<string, RoleNode>();
+  let pending = [...new Set(roleIds.map(id => id.toString()))];
+
+  while (pending.length > 0) {
+    const roles = await Role.find({ _id: { $in: pending } })
+      .populate<{ permissions: IPermission[] }>('permissions')
+      .lean();
+
+    const next = new Set<string>();
+    for (const role of roles) {
+      const parentRoles = (role.parentRoles || []) as Types.ObjectId[];
+
+      graph.set(role._id.toString(), {
+        _id: role._id as Types.ObjectId,
+        name: role.name,
+        requireTwoFactor: role.requireTwoFactor,
+        permissions: role.permissions.filter(Boolean),
+        parentRoles
+      });
+
+      for (const parentId of parentRoles) {
+        next.add(parentId.toString());
+      }
+    }
+
+    // Already loaded roles are skipped, so a cycle in stored data cannot loop forever
+    pending = [...next].filter(id => !graph.has(id));
+  }
+
+  return graph;
+};
+
+/**
+ * Find every role a role inherits from (itself included), each with its
+ * shortest inheritance path starting at the role
+ */
+export const resolveInheritancePaths = (graph: Map<string, RoleNode>, roleId: string): Map<string, string[]> => {
+  const root = graph.get(roleId);
+  if (!root) return new Map();
+
+  const paths = new Map<string, string[]>([[roleId, [root.name]]]);
+  const queue = [roleId];
+
+  // Breadth first, so each role is reached through its shortest path
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const path = paths.get(id)!;
+
+    for (const parentId of graph.get(id)!.parentRoles.map(parent => parent.toString())) {
+      const parent = graph.get(parentId);
+      if (parent && !paths.has(parentId)) {
+        paths.set(parentId, [...path, parent.name]);
+        queue.push(parentId);
+      }
+    }
+  }
+
+  return paths;
+};
+
+/**
+ * Resolve the effective permissions of a role through its inheritance graph,
+ * recording every role that grants each permission
+ */
+export const resolveEffectivePermissions = (graph: Map<string, RoleNode>, roleId: string): EffectivePermission[] => {
+  const effective = new Map<string, EffectivePermission>();
+
+  for (const [id, path] of resolveInheritancePaths(graph, roleId)) {
+    const node = graph.get(id)!;
+
+    for (const permission of node.permissions) {
+      const code = `${permission.resource}:${permission.name}`;
+      if (!effective.has(code)) {
+        effective.set(code, { code, permission, sources: [] });
+      }
+      effective.get(code)!.sources.push({ roleId: id, role: node.name, inherited: id !== roleId, path });
+    }
+  }
+
+  return [...effective.values()];
+};
+
+/**
+ * Make sure the parent roles exist and, for an existing role, that inheriting
+ * from them would not create a cycle. Throws a 400 ApiError otherwise
+ */
+export const assertValidParentRoles = async (parentRoleIds: string[], roleId?: string): Promise<void> => {
+  if (parentRoleIds.length === 0) return;
+
+  const parentIds = [...new Set(parentRoleIds)];
+  const existing = await Role.find({ _id: { $in: parentIds } }).distinct('_id');
+  if (existing.length !== parentIds.length) {
+    const error = new Error('One or more parent role IDs are invalid') as ApiError;
+    error.statusCode = 400;
+    throw error;
+  }
+
+  if (!roleId) return;
+
+  if (parentIds.includes(roleId)) {
+    const error = new Error('A role cannot inherit from itself') as ApiError;
+    error.statusCode = 400;
+    throw error;
+  }
+
+  // The role must not already be an ancestor of any of its new parents
+  const ancestors = await loadRoleGraph(parentIds);
+  if (ancestors.has(roleId)) {
+    const error = new Error('Role inheritance would create a cycle') as ApiError;
+    error.statusCode = 400;
+    throw error;
+  }
+};
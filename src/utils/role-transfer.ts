@@ -0,0 +1,296 @@
+import Permission, { IPermission } from '@/models/permission.model';
+import Role, { IRole } from '@/models/role.model';
+import User from '@/models/user.model';
+import { ApiError } from '@/types';
+import { invalidateAllAccess } from '@/utils/permission-cache';
+import { describePermission, getRegisteredPermissions } from '@/utils/permission-registry';
+import mongoose, { Types } from 'mongoose';
+
+export const ROLE_DOCUMENT_VERSION = 1;
+
+// A role as it appears in an exported document: permissions by code, parent roles by name
+export interface RoleDocumentEntry {
+  name: string;
+  description: string;
+  permissions?: string[];
+  parentRoles?: string[];
+  isDefault?: boolean;
+  requireTwoFactor?: boolean;
+}
+
+export interface RoleDocument {
+  version: number;
+  exportedAt?: string;
+  roles: RoleDocumentEntry[];
+}
+
+export interface RoleFieldChange {
+  field: keyof RoleDocumentEntry;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RoleImportDiff {
+  created: string[];
+  updated: { name: string; changes: RoleFieldChange[] }[];
+  unchanged: string[];
+  deleted: string[];
+  // Permission codes that do not exist yet and will be created
+  permissionsCreated: string[];
+}
+
+export interface RoleImportPlan {
+  roles: Required<RoleDocumentEntry>[];
+  prune: boolean;
+  diff: RoleImportDiff;
+}
+
+interface StoredRole {
+  _id: Types.ObjectId;
+  entry: Required<RoleDocumentEntry>;
+}
+
+const COMPARED_FIELDS: (keyof RoleDocumentEntry)[] = ['description', 'permissions', 'parentRoles', 'isDefault', 'requireTwoFactor'];
+
+const loadStoredRoles = async (): Promise<StoredRole[]> => {
+  const roles = await Role.find()
+    .populate<{ permissions: IPermission[]; parentRoles: IRole[] }>([
+      { path: 'permissions' },
+      { path: 'parentRoles', select: 'name' }
+    ])
+    .sort({ name: 1 })
+    .lean();
+
+  return roles.map(role => ({
+    _id: role._id as Types.ObjectId,
+    entry: {
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions.filter(Boolean).map(permission => `${permission.resource}:${permission.name}`).sort(),
+      parentRoles: role.parentRoles.filter(Boolean).map(parent => parent.name).sort(),
+      isDefault: role.isDefault,
+      requireTwoFactor: role.requireTwoFactor
+    }
+  }));
+};
+
+const importError = (message: string, errors: { field: string; message: string }[] = []): ApiError => {
+  const error = new Error(message) as ApiError;
+  error.statusCode = 400;
+  if (errors.length > 0) error.errors = errors;
+  return error;
+};
+
+/**
+ * Export every role as a portable document, referring to permissions and parent roles by name
+ */
+export const exportRoles = async (): Promise<Required<RoleDocument>> => {
+  const roles = await loadStoredRoles();
+
+  return {
+    version: ROLE_DOCUMENT_VERSION,
+    exportedAt: new Date().toISOString(),
+    roles: roles.map(role => role.entry)
+  };
+};
+
+/**
+ * Validate a role document against the stored roles and work out what importing it would change.
+ * Throws a 400 ApiError listing every problem found.
+ */
+export const planRoleImport = async (document: RoleDocument, prune = false): Promise<RoleImportPlan> => {
+  if (document.version !== ROLE_DOCUMENT_VERSION) {
+    throw importError(`Unsupported role document version ${document.version}`);
+  }
+
+  const roles: Required<RoleDocumentEntry>[] = document.roles.map(role => ({
+    name: role.name.trim(),
+    description: role.description,
+    permissions: [...new Set(role.permissions || [])].sort(),
+    parentRoles: [...new Set(role.parentRoles || [])].sort(),
+    isDefault: role.isDefault || false,
+    requireTwoFactor: role.requireTwoFactor || false
+  }));
+
+  const stored = await loadStoredRoles();
+  const storedByName = new Map(stored.map(role => [role.entry.name, role]));
+  const importedNames = new Set(roles.map(role => role.name));
+  const errors: { field: string; message: string }[] = [];
+
+  const seen = new Set<string>();
+  roles.forEach((role, index) => {
+    if (seen.has(role.name)) {
+      errors.push({ field: `roles.${index}.name`, message: `Role ${role.name} appears more than once` });
+    }
+    seen.add(role.name);
+  });
+
+  // Roles that remain after the import, with the parents they will have
+  const remaining = new Map<string, string[]>(roles.map(role => [role.name, role.parentRoles]));
+  if (!prune) {
+    stored
+      .filter(role => !importedNames.has(role.entry.name))
+      .forEach(role => remaining.set(role.entry.name, role.entry.parentRoles));
+  }
+
+  roles.forEach((role, index) => {
+    role.parentRoles.forEach(parent => {
+      if (parent === role.name) {
+        errors.push({ field: `roles.${index}.parentRoles`, message: `Role ${role.name} cannot inherit from itself` });
+      } else if (!remaining.has(parent)) {
+        errors.push({ field: `roles.${index}.parentRoles`, message: `Parent role ${parent} does not exist` });
+      }
+    });
+  });
+
+  // Depth first search over the resulting inheritance graph
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const findCycle = (name: string): boolean => {
+    if (visiting.has(name)) return true;
+    if (visited.has(name)) return false;
+
+    visiting.add(name);
+    const cyclic = (remaining.get(name) || []).some(parent => parent !== name && findCycle(parent));
+    visiting.delete(name);
+    visited.add(name);
+    return cyclic;
+  };
+  if ([...remaining.keys()].some(name => findCycle(name))) {
+    errors.push({ field: 'roles', message: 'Role inheritance would create a cycle' });
+  }
+
+  const defaults = roles.filter(role => role.isDefault);
+  if (defaults.length > 1) {
+    errors.push({ field: 'roles', message: `Only one role can be the default, got ${defaults.map(role => role.name).join(', ')}` });
+  }
+  const keepsDefault = defaults.length > 0 || (!prune && stored.some(role => role.entry.isDefault && !importedNames.has(role.entry.name)));
+  if (!keepsDefault) {
+    errors.push({ field: 'roles', message: 'The import would leave no default role' });
+  }
+
+  const storedPermissions = await Permission.find({}, 'resource name').lean();
+  const storedCodes = new Set(storedPermissions.map(permission => `${permission.resource}:${permission.name}`));
+  const registeredCodes = new Set(getRegisteredPermissions().map(({ resource, name }) => `${resource}:${name}`));
+  const permissionsCreated = new Set<string>();
+
+  roles.forEach((role, index) => {
+    role.permissions.forEach(code => {
+      if (storedCodes.has(code)) return;
+      if (registeredCodes.has(code)) {
+        permissionsCreated.add(code);
+      } else {
+        errors.push({ field: `roles.${index}.permissions`, message: `Unknown permission ${code}` });
+      }
+    });
+  });
+
+  const deleted = prune ? stored.filter(role => !importedNames.has(role.entry.name)) : [];
+  if (deleted.length > 0) {
+    const assigned = await User.find({ roles: { $in: deleted.map(role => role._id) } }).distinct('roles');
+    const assignedIds = new Set(assigned.map(id => id.toString()));
+
+    deleted
+      .filter(role => assignedIds.has(role._id.toString()))
+      .forEach(role => errors.push({ field: 'roles', message: `Cannot prune role ${role.entry.name}, it is assigned to users` }));
+  }
+
+  if (errors.length > 0) {
+    throw importError('Role document is invalid', errors);
+  }
+
+  const diff: RoleImportDiff = {
+    created: [],
+    updated: [],
+    unchanged: [],
+    deleted: deleted.map(role => role.entry.name),
+    permissionsCreated: [...permissionsCreated].sort()
+  };
+
+  for (const role of roles) {
+    const existing = storedByName.get(role.name);
+    if (!existing) {
+      diff.created.push(role.name);
+      continue;
+    }
+
+    const changes = COMPARED_FIELDS
+      .filter(field => JSON.stringify(existing.entry[field]) !== JSON.stringify(role[field]))
+      .map(field => ({ field, from: existing.entry[field], to: role[field] }));
+
+    if (changes.length > 0) {
+      diff.updated.push({ name: role.name, changes });
+    } else {
+      diff.unchanged.push(role.name);
+    }
+  }
+
+  // A new default replaces the default flag of a role that is kept but not in the document
+  if (defaults.length > 0 && !prune) {
+    stored
+      .filter(role => role.entry.isDefault && !importedNames.has(role.entry.name))
+      .forEach(role => diff.updated.push({
+        name: role.entry.name,
+        changes: [{ field: 'isDefault', from: true, to: false }]
+      }));
+  }
+
+  return { roles, prune, diff };
+};
+
+/**
+ * Apply a planned import in a single transaction (requires MongoDB running as a replica set)
+ */
+export const applyRoleImport = async (plan: RoleImportPlan): Promise<void> => {
+  const importedNames = plan.roles.map(role => role.name);
+
+  await mongoose.connection.transaction(async session => {
+    if (plan.diff.permissionsCreated.length > 0) {
+      await Permission.insertMany(
+        plan.diff.permissionsCreated.map(code => {
+          const [resource, name] = code.split(':');
+          return { resource, name, description: describePermission(resource, name) };
+        }),
+        { session }
+      );
+    }
+
+    const permissions = await Permission.find({}, 'resource name').session(session).lean();
+    const permissionIds = new Map(permissions.map(permission => [`${permission.resource}:${permission.name}`, permission._id]));
+
+    if (plan.prune) {
+      await Role.deleteMany({ name: { $nin: importedNames } }, { session });
+    } else if (plan.roles.some(role => role.isDefault)) {
+      await Role.updateMany({ name: { $nin: importedNames }, isDefault: true }, { isDefault: false }, { session });
+    }
+
+    // Upsert the roles first so parent roles can be linked by ID afterwards
+    for (const role of plan.roles) {
+      await Role.findOneAndUpdate(
+        { name: role.name },
+        {
+          name: role.name,
+          description: role.description,
+          permissions: role.permissions.map(code => permissionIds.get(code)),
+          isDefault: role.isDefault,
+          requireTwoFactor: role.requireTwoFactor
+        },
+        { upsert: true, runValidators: true, session }
+      );
+    }
+
+    const roleIds = new Map(
+      (await Role.find({}, 'name').session(session).lean()).map(role => [role.name, role._id])
+    );
+
+    for (const role of plan.roles) {
+      await Role.updateOne(
+        { name: role.name },
+        { parentRoles: role.parentRoles.map(parent => roleIds.get(parent)) },
+        { session }
+      );
+    }
+  });
+
+  invalidateAllAccess();
+};
@@ -0,0 +1,94 @@
+import { Router } from 'express';
+
+// What a middleware requires from the caller, recorded by the auth middlewares
+export interface RouteRequirements {
+  authRequired?: boolean;
+  // Any one of these permissions
+  permissions?: string[];
+  // Any one of these roles
+  roles?: string[];
+}
+
+export interface RouteInfo {
+  method: string;
+  path: string;
+  authRequired: boolean;
+  // Every group must be satisfied by at least one of its permissions
+  permissions: string[][];
+  roles: string[][];
+}
+
+interface MountedRouter {
+  path: string;
+  router: Router;
+}
+
+// Express 5 doesn't keep mount paths on its layers, so they are recorded here
+const mountedRouters: MountedRouter[] = [];
+
+const requirementsByHandler = new WeakMap<Function, RouteRequirements>();
+
+/**
+ * Record what a middleware requires so the route catalog can report it
+ */
+export const tagRequirements = <T extends Function>(handler: T, requirements: RouteRequirements): T => {
+  requirementsByHandler.set(handler, requirements);
+  return handler;
+};
+
+/**
+ * Mount a route module on the API router and remember where it lives
+ */
+export const mountRouter = (parent: Router, path: string, router: Router): void => {
+  mountedRouters.push({ path, router });
+  parent.use(path, router);
+};
+
+const applyRequirements = (route: RouteInfo, requirements: RouteRequirements | undefined): void => {
+  if (!requirements) return;
+
+  if (requirements.authRequired !== undefined) route.authRequired = requirements.authRequired;
+  if (requirements.permissions) route.permissions.push(requirements.permissions);
+  if (requirements.roles) route.roles.push(requirements.roles);
+};
+
+/**
+ * List every route of the mounted route modules with what it requires.
+ * Router level middleware counts for the routes declared after it.
+ */
+export const listRoutes = (basePath = '/api'): RouteInfo[] => {
+  const routes: RouteInfo[] = [];
+
+  for (const { path, router } of mountedRouters) {
+    const inherited: RouteRequirements[] = [];
+
+    for (const layer of router.stack) {
+      if (!layer.route) {
+        const requirements = requirementsByHandler.get(layer.handle);
+        if (requirements) inherited.push(requirements);
+        continue;
+      }
+
+      const route = layer.route as unknown as { path: string; methods: Record<string, boolean>; stack: { method?: string; handle: Function }[] };
+
+      for (const method of Object.keys(route.methods)) {
+        const info: RouteInfo = {
+          method: method.toUpperCase(),
+          path: `${basePath}${path}${route.path === '/' ? '' : route.path}`,
+          authRequired: false,
+          permissions: [],
+          roles: []
+        };
+
+        inherited.forEach(requirements => applyRequirements(info, requirements));
+        route.stack
+          .filter(handler => !handler.method || handler.method === method)
+          .forEach(handler => applyRequirements(info, requirementsByHandler.get(handler.handle)));
+
+        routes.push(info);
+      }
+    }
+  }
+
+  return routes;
+};
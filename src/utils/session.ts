@@ -0,0 +1,351 @@
+import Session from '@/models/session.model';
+import { IUser } from '@/models/user.model';
+import { disconnectSessions } from '@/socket';
+import { ApiError } from '@/types';
+import logger from '@/utils/logger';
+import { getPasswordPolicy, isPasswordExpired } from '@/utils/password-policy';
+import { getUserAccess } from '@/utils/permission-cache';
+import {
+  generateAccessToken,
+  generateChallengeToken,
+  generateImpersonationToken,
+  generateRefreshToken,
+  hashToken,
+  IMPERSONATION_TTL_MS,
+  REFRESH_TOKEN_TTL_MS,
+  verifyRefreshToken
+} from '@/utils/token';
+import crypto from 'crypto';
+import { Request } from 'express';
+import _ from 'lodash';
+import { Types } from 'mongoose';
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export type LoginResult =
+  | { twoFactorRequired: true; enrollmentRequired: boolean; challengeToken: string }
+  | { passwordChangeRequired: true; challengeToken: string }
+  | { user: Record<string, any>; tokens: SessionTokens };
+
+export interface SessionContext {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+// How often lastSeenAt is written while a session is in use
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const sessionError = (message: string): ApiError => {
+  const error = new Error(message) as ApiError;
+  error.statusCode = 401;
+  return error;
+};
+
+/**
+ * Extract the client details recorded on a session
+ */
+export const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent') || null,
+  ipAddress: req.ip || null
+});
+
+/**
+ * Build a short human readable device label from a user agent, e.g. "Chrome on Windows"
+ */
+export const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/PostmanRuntime/, 'Postman'],
+    [/curl\//, 'curl']
+  ];
+  const systems: [RegExp, string][] = [
+    [/Windows/, 'Windows'],
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux']
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || 'Unknown device';
+};
+
+/**
+ * Start a new session (refresh token family) for a user and issue its first token pair
+ */
+export const createSession = async (
+  userId: string | Types.ObjectId,
+  context: SessionContext = { userAgent: null, ipAddress: null }
+): Promise<SessionTokens & { sessionId: string }> => {
+  const sessionId = new Types.ObjectId();
+  const refreshToken = generateRefreshToken(userId, sessionId);
+
+  await Session.create({
+    _id: sessionId,
+    user: userId,
+    tokenHash: hashToken(refreshToken),
+    device: describeDevice(context.userAgent),
+    userAgent: context.userAgent,
+    ipAddress: context.ipAddress,
+    lastSeenAt: new Date(),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+  });
+
+  return {
+    sessionId: sessionId.toString(),
+    accessToken: generateAccessToken(userId.toString(), sessionId),
+    refreshToken
+  };
+};
+
+/**
+ * Start a short lived session in which an admin acts as another user
+ * Only an access token is issued; there is no refresh token to rotate.
+ */
+export const createImpersonationSession = async (
+  userId: string | Types.ObjectId,
+  impersonatorId: string | Types.ObjectId,
+  context: SessionContext
+): Promise<{ sessionId: string; accessToken: string; expiresAt: Date }> => {
+  const sessionId = new Types.ObjectId();
+  const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_MS);
+
+  await Session.create({
+    _id: sessionId,
+    user: userId,
+    // Random hash: no refresh token can ever match it
+    tokenHash: hashToken(crypto.randomBytes(32).toString('hex')),
+    device: describeDevice(context.userAgent),
+    userAgent: context.userAgent,
+    ipAddress: context.ipAddress,
+    lastSeenAt: new Date(),
+    expiresAt,
+    impersonatedBy: impersonatorId
+  });
+
+  return {
+    sessionId: sessionId.toString(),
+    accessToken: generateImpersonationToken(userId, impersonatorId, sessionId),
+    expiresAt
+  };
+};
+
+/**
+ * Finish a successful login: start a session, record the login and
+ * return the user data (without secrets) together with the new tokens
+ */
+export const signInUser = async (user: IUser, req: Request): Promise<{ user: Record<string, any>; tokens: SessionTokens }> => {
+  const { accessToken, refreshToken } = await createSession(user._id as Types.ObjectId, getSessionContext(req));
+
+  user.lastLoginAt = new Date();
+  await user.save();
+
+  const userData = _.omit(user.toObject(), [
+    'password',
+    'passwordHistory',
+    'failedLoginAttempts',
+    'lockUntil',
+    'twoFactor.secret',
+    'twoFactor.pendingSecret',
+    'twoFactor.backupCodes',
+    'twoFactor.lastUsedStep'
+  ]);
+
+  return {
+    user: userData,
+    tokens: {
+      accessToken,
+      refreshToken
+    }
+  };
+};
+
+/**
+ * Whether two-factor authentication is mandatory for a user, through their roles
+ * or any role those inherit from
+ */
+export const isTwoFactorRequired = async (user: IUser): Promise<boolean> => {
+  if (!user.$locals.access) {
+    user.$locals.access = await getUserAccess(user._id as Types.ObjectId, user.getActiveRoleIds());
+  }
+  return user.requiresTwoFactor();
+};
+
+/**
+ * Finish a login once the user has proven their first factor: hand out a
+ * two-factor challenge when a second factor is needed, a password change
+ * challenge when the password has expired, or sign the user in
+ * (expects roles to be populated)
+ */
+export const completeLogin = async (
+  user: IUser,
+  req: Request,
+  options: { secondFactorVerified?: boolean } = {}
+): Promise<LoginResult> => {
+  if (!options.secondFactorVerified && (user.twoFactor?.enabled || await isTwoFactorRequired(user))) {
+    return {
+      twoFactorRequired: true,
+      enrollmentRequired: !user.twoFactor?.enabled,
+      challengeToken: generateChallengeToken(user._id as Types.ObjectId, 'two_factor')
+    };
+  }
+
+  // Users signing in through an identity provider don't use their local password
+  if (user.identities.length === 0 && isPasswordExpired(user, await getPasswordPolicy())) {
+    return {
+      passwordChangeRequired: true,
+      challengeToken: generateChallengeToken(user._id as Types.ObjectId, 'password_change')
+    };
+  }
+
+  return signInUser(user, req);
+};
+
+/**
+ * Message for the response of a login step, depending on what it resulted in
+ */
+export const getLoginMessage = (result: LoginResult): string => {
+  if ('twoFactorRequired' in result) return 'Two-factor authentication required';
+  if ('passwordChangeRequired' in result) return 'Your password has expired and must be changed';
+  return 'Login successful';
+};
+
+/**
+ * Exchange a refresh token for a new token pair.
+ * Presenting a token that has already been rotated revokes the whole family.
+ */
+export const rotateSession = async (
+  refreshToken: string,
+  context?: SessionContext
+): Promise<SessionTokens & { userId: string; sessionId: string }> => {
+  const decoded = verifyRefreshToken(refreshToken);
+
+  if (!decoded.sessionId) {
+    throw sessionError('Invalid refresh token');
+  }
+
+  const session = await Session.findById(decoded.sessionId).select('+tokenHash');
+
+  if (!session || session.user.toString() !== decoded.userId) {
+    throw sessionError('Invalid refresh token');
+  }
+
+  if (session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    throw sessionError('Session has expired or been revoked');
+  }
+
+  const presentedHash = hashToken(refreshToken);
+
+  if (session.tokenHash !== presentedHash) {
+    await revokeSession(session._id as Types.ObjectId, 'reuse_detected');
+    logger.warn(`Refresh token reuse detected for session ${session._id}, session revoked`);
+    throw sessionError('Refresh token has already been used');
+  }
+
+  const newRefreshToken = generateRefreshToken(decoded.userId, session._id as Types.ObjectId);
+
+  // Only swap the hash if nobody rotated the family in the meantime
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, tokenHash: presentedHash, revokedAt: null },
+    {
+      tokenHash: hashToken(newRefreshToken),
+      lastRotatedAt: new Date(),
+      lastSeenAt: new Date(),
+      ...(context?.ipAddress && { ipAddress: context.ipAddress }),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    }
+  );
+
+  if (!rotated) {
+    await revokeSession(session._id as Types.ObjectId, 'reuse_detected');
+    logger.warn(`Concurrent refresh detected for session ${session._id}, session revoked`);
+    throw sessionError('Refresh token has already been used');
+  }
+
+  return {
+    userId: decoded.userId,
+    sessionId: (session._id as Types.ObjectId).toString(),
+    accessToken: generateAccessToken(decoded.userId, session._id as Types.ObjectId),
+    refreshToken: newRefreshToken
+  };
+};
+
+/**
+ * Check that the session behind an access token is still active and record activity on it
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  const session = await Session.findById(sessionId).select('revokedAt expiresAt lastSeenAt');
+
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    return false;
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+    await Session.updateOne({ _id: sessionId }, { lastSeenAt: new Date() });
+  }
+
+  return true;
+};
+
+/**
+ * Revoke a single session and disconnect its sockets
+ */
+export const revokeSession = async (sessionId: string | Types.ObjectId, reason = 'logout'): Promise<void> => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  disconnectSessions([sessionId.toString()]);
+};
+
+/**
+ * Revoke the session a refresh token belongs to, ignoring tokens that no longer verify
+ */
+export const revokeSessionByRefreshToken = async (refreshToken: string, reason = 'logout'): Promise<void> => {
+  try {
+    const decoded = verifyRefreshToken(refreshToken);
+    if (decoded.sessionId) {
+      await revokeSession(decoded.sessionId, reason);
+    }
+  } catch (error) {
+    // An invalid or expired refresh token has nothing left to revoke
+  }
+};
+
+/**
+ * Revoke every active session of a user, optionally keeping one (e.g. the caller's own)
+ * Returns the number of sessions revoked
+ */
+export const revokeUserSessions = async (
+  userId: string | Types.ObjectId,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const filter: Record<string, any> = { user: userId, revokedAt: null };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const sessionIds = (await Session.find(filter).distinct('_id')).map(id => id.toString());
+  if (sessionIds.length === 0) return 0;
+
+  await Session.updateMany(
+    { _id: { $in: sessionIds }, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  disconnectSessions(sessionIds);
+
+  return sessionIds.length;
+};
@@ -19,6 +19,8 @@ export enum FileCategory {
   BLOG = 'blog',
   CAREER = 'career',
   DOCUMENT = 'document',
+  // Uploaded by applicants with the public application form
+  RESUME = 'resume',
   OTHER = 'other'
 }
 
@@ -336,4 +338,74 @@ export const copyFile = async (
     apiError.statusCode = 500;
     throw apiError;
   }
-};
\ No newline at end of file
+};
+/**
+ * Download a file from S3 into memory
+ */
+export const downloadFile = async (key: string): Promise<{ body: Buffer; contentType: string; originalName: string }> => {
+  try {
+    if (!BUCKET_NAME) {
+      throw new Error('AWS_S3_BUCKET is not defined');
+    }
+
+    const command = new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key
+    });
+
+    const response = await s3Client.send(command);
+    const metadata = response.Metadata || {};
+
+    return {
+      body: Buffer.from(await response.Body!.transformToByteArray()),
+      contentType: response.ContentType || 'application/octet-stream',
+      originalName: metadata['original-name'] ? decodeURIComponent(metadata['original-name']) : key
+    };
+  } catch (error: any) {
+    console.error('Error downloading file:', error);
+    const apiError = new Error('Failed to download file') as ApiError;
+    apiError.statusCode = 500;
+    throw apiError;
+  }
+};
+
+/**
+ * Get the key of a file in our bucket from a stored reference, which may be the key itself
+ * or a (presigned) S3 URL. Returns null for URLs pointing anywhere else.
+ */
+export const getStorageKey = (reference: string): string | null => {
+  if (!reference) return null;
+  if (!/^https?:\/\//i.test(reference)) return reference;
+  if (!BUCKET_NAME) return null;
+
+  try {
+    const url = new URL(reference);
+    const path = decodeURIComponent(url.pathname.replace(/^\//, ''));
+
+    // Virtual-hosted style (bucket.s3.region.amazonaws.com/key) or path style (s3.region.amazonaws.com/bucket/key)
+    if (url.hostname.startsWith(`${BUCKET_NAME}.`)) return path || null;
+    if (path.startsWith(`${BUCKET_NAME}/`)) return path.slice(BUCKET_NAME.length + 1) || null;
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Get the key of an uploaded resume from an application's resume reference. Returns null for
+ * links to other sites and for any file of our bucket outside the resume category.
+ */
+export const getResumeStorageKey = (reference: string): string | null => {
+  const key = getStorageKey(reference);
+  return key?.startsWith(`${FileCategory.RESUME}-`) ? key : null;
+};
+
+/**
+ * Whether an applicant may submit a resume reference: a link to another site, or a resume
+ * uploaded to our bucket. Other files of the bucket are refused, as applications are exported
+ * and erased along with their resume.
+ */
+export const isValidResumeReference = (reference: string): boolean => {
+  if (getStorageKey(reference) !== null) return getResumeStorageKey(reference) !== null;
+  return /^https?:\/\//i.test(reference);
+};
@@ -0,0 +1,79 @@
+export type DiffOperation = 'equal' | 'added' | 'removed';
+
+export interface DiffHunk {
+  type: DiffOperation;
+  lines: string[];
+}
+
+// Above this many comparisons the changed middle is reported as replaced wholesale
+const MAX_DIFF_CELLS = 4_000_000;
+
+const pushLine = (hunks: DiffHunk[], type: DiffOperation, line: string): void => {
+  const last = hunks[hunks.length - 1];
+  if (last && last.type === type) {
+    last.lines.push(line);
+  } else {
+    hunks.push({ type, lines: [line] });
+  }
+};
+
+/**
+ * Line by line diff of two texts (longest common subsequence), grouped into hunks of
+ * unchanged, added and removed lines
+ */
+export const diffLines = (before: string, after: string): DiffHunk[] => {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+  const hunks: DiffHunk[] = [];
+
+  // Edits are usually local, so the common start and end are skipped before comparing
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  a.slice(0, start).forEach(line => pushLine(hunks, 'equal', line));
+
+  const n = endA - start;
+  const m = endB - start;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    a.slice(start, endA).forEach(line => pushLine(hunks, 'removed', line));
+    b.slice(start, endB).forEach(line => pushLine(hunks, 'added', line));
+  } else {
+    // lengths[i * (m + 1) + j] is the LCS length of a[start + i..endA) and b[start + j..endB)
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        pushLine(hunks, 'equal', a[start + i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        pushLine(hunks, 'removed', a[start + i++]);
+      } else {
+        pushLine(hunks, 'added', b[start + j++]);
+      }
+    }
+    while (i < n) pushLine(hunks, 'removed', a[start + i++]);
+    while (j < m) pushLine(hunks, 'added', b[start + j++]);
+  }
+
+  a.slice(endA).forEach(line => pushLine(hunks, 'equal', line));
+
+  return hunks;
+};
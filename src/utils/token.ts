@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { Response } from 'express';
 import jwt from 'jsonwebtoken';
 import { ApiError } from '../types';
@@ -6,38 +7,85 @@ import { Types } from 'mongoose';
 // Define proper types for JWT payloads
 export interface JwtPayload {
   userId: string;
+  sessionId?: string;
+  impersonatorId?: string;
 }
 
+export type ChallengePurpose = 'two_factor' | 'password_change';
+
+export interface ChallengePayload {
+  userId: string;
+  purpose: ChallengePurpose;
+}
+
+// Lifetime of a refresh token (and of the session it belongs to)
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Lifetime of an impersonation token (and of its session)
+export const IMPERSONATION_TTL_MS = 30 * 60 * 1000;
+
 /**
  * Generate access token
  */
-export const generateAccessToken = (userId: any): string => {
+export const generateAccessToken = (userId: any, sessionId?: string | Types.ObjectId): string => {
   if (!process.env.JWT_ACCESS_SECRET) {
     throw new Error('JWT_ACCESS_SECRET is not defined');
   }
 
   return jwt.sign(
-    { userId } as any,
+    { userId, ...(sessionId && { sessionId: sessionId.toString() }) } as any,
     process.env.JWT_ACCESS_SECRET,
     { expiresIn:'15m' }
   );
 };
 
+/**
+ * Generate an access token for an admin impersonating a user
+ * Impersonation tokens are short lived and cannot be refreshed.
+ */
+export const generateImpersonationToken = (
+  userId: string | Types.ObjectId,
+  impersonatorId: string | Types.ObjectId,
+  sessionId: string | Types.ObjectId
+): string => {
+  if (!process.env.JWT_ACCESS_SECRET) {
+    throw new Error('JWT_ACCESS_SECRET is not defined');
+  }
+
+  return jwt.sign(
+    {
+      userId: userId.toString(),
+      sessionId: sessionId.toString(),
+      impersonatorId: impersonatorId.toString()
+    } as JwtPayload,
+    process.env.JWT_ACCESS_SECRET,
+    { expiresIn: Math.floor(IMPERSONATION_TTL_MS / 1000) }
+  );
+};
+
 /**
  * Generate refresh token
+ * A random jwtid makes every rotated token unique, even when issued within the same second.
  */
-export const generateRefreshToken = (userId: string | Types.ObjectId): string => {
+export const generateRefreshToken = (userId: string | Types.ObjectId, sessionId: string | Types.ObjectId): string => {
   if (!process.env.JWT_REFRESH_SECRET) {
     throw new Error('JWT_REFRESH_SECRET is not defined');
   }
 
   return jwt.sign(
-    { userId } as JwtPayload,
+    { userId: userId.toString(), sessionId: sessionId.toString() } as JwtPayload,
     process.env.JWT_REFRESH_SECRET,
-    { expiresIn:'7d' }
+    { expiresIn: Math.floor(REFRESH_TOKEN_TTL_MS / 1000), jwtid: crypto.randomUUID() }
   );
 };
 
+/**
+ * Hash a token for storage (refresh tokens are never stored in plain text)
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
 /**
  * Set HTTP-only cookies for both tokens
  */
@@ -87,8 +135,12 @@ export const verifyAccessToken = (token: string): JwtPayload => {
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_ACCESS_SECRET);
-    return decoded as JwtPayload;
+    const decoded = jwt.verify(token, process.env.JWT_ACCESS_SECRET) as jwt.JwtPayload;
+    // Challenge tokens share the secret but carry an audience; they are not access tokens
+    if (decoded.aud) {
+      throw new Error('Invalid access token');
+    }
+    return decoded as unknown as JwtPayload;
   } catch (error: any) {
     const apiError = new Error(error.message || 'Invalid access token') as ApiError;
     apiError.statusCode = 401;
@@ -112,4 +164,41 @@ export const verifyRefreshToken = (token: string): JwtPayload => {
     apiError.statusCode = 401;
     throw apiError;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Generate a short-lived challenge token for a pending multi-step login
+ * It is signed with its own audience so it can never be used as an access token.
+ */
+export const generateChallengeToken = (userId: string | Types.ObjectId, purpose: ChallengePurpose): string => {
+  if (!process.env.JWT_ACCESS_SECRET) {
+    throw new Error('JWT_ACCESS_SECRET is not defined');
+  }
+
+  return jwt.sign(
+    { userId: userId.toString(), purpose } as ChallengePayload,
+    process.env.JWT_ACCESS_SECRET,
+    { expiresIn: '5m', audience: 'login-challenge' }
+  );
+};
+
+/**
+ * Verify a challenge token issued for the given purpose
+ */
+export const verifyChallengeToken = (token: string, purpose: ChallengePurpose): ChallengePayload => {
+  if (!process.env.JWT_ACCESS_SECRET) {
+    throw new Error('JWT_ACCESS_SECRET is not defined');
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_ACCESS_SECRET, { audience: 'login-challenge' }) as ChallengePayload;
+    if (decoded.purpose !== purpose) {
+      throw new Error('Invalid challenge token');
+    }
+    return decoded;
+  } catch (error: any) {
+    const apiError = new Error(error.message || 'Invalid challenge token') as ApiError;
+    apiError.statusCode = 401;
+    throw apiError;
+  }
+};
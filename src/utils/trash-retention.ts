@@ -0,0 +1,54 @@
+import { Application, Blog, BlogReviewComment, BlogRevision, Career, Inquiry, User } from '@/models';
+import logger from '@/utils/logger';
+import { Model, Types } from 'mongoose';
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const PURGE_INTERVAL_MS = Number(process.env.TRASH_PURGE_INTERVAL_MS) || 60 * 60 * 1000;
+
+// Every model using the soft delete plugin
+const trashModels: Record<string, Model<any>> = { Application, Blog, Career, Inquiry, User };
+
+// Records that only exist alongside a document, removed when it is purged
+const purgeDependents: Record<string, (ids: Types.ObjectId[]) => Promise<unknown>> = {
+  Blog: ids => Promise.all([
+    BlogRevision.deleteMany({ blog: { $in: ids } }),
+    BlogReviewComment.deleteMany({ blog: { $in: ids } })
+  ])
+};
+
+/**
+ * Permanently delete documents that have been in the trash for longer than the retention period
+ */
+export const purgeExpiredTrash = async (): Promise<Record<string, number>> => {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const purged: Record<string, number> = {};
+
+  for (const [name, model] of Object.entries(trashModels)) {
+    const ids: Types.ObjectId[] = await model.find({ deletedAt: { $lte: cutoff } }).distinct('_id');
+    if (ids.length === 0) continue;
+
+    const { deletedCount } = await model.deleteMany({ _id: { $in: ids }, deletedAt: { $lte: cutoff } });
+    await purgeDependents[name]?.(ids);
+    purged[name] = deletedCount;
+  }
+
+  if (Object.keys(purged).length > 0) {
+    logger.info(`Purged expired trash: ${Object.entries(purged).map(([name, count]) => `${count} ${name}`).join(', ')}`);
+  }
+
+  return purged;
+};
+
+/**
+ * Purge expired trash now and then periodically
+ */
+export const startTrashPurge = (): NodeJS.Timeout => {
+  const purge = () => {
+    purgeExpiredTrash().catch(error => logger.error('Trash purge failed:', error));
+  };
+
+  purge();
+  const timer = setInterval(purge, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};